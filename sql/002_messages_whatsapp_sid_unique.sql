@@ -0,0 +1,18 @@
+-- Migration: Unique WhatsApp message SID
+-- Description: Deduplicates Twilio webhook retries (same MessageSid) at the database level
+-- Run this in Supabase SQL Editor
+
+-- Remove duplicated inbound messages created by webhook retries (keeps the oldest row)
+DELETE FROM messages m
+USING messages d
+WHERE m.whatsapp_message_sid IS NOT NULL
+  AND m.whatsapp_message_sid = d.whatsapp_message_sid
+  AND m.organization_id = d.organization_id
+  AND m.created_at > d.created_at;
+
+-- One row per Twilio MessageSid per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_org_whatsapp_sid_unique
+  ON messages(organization_id, whatsapp_message_sid)
+  WHERE whatsapp_message_sid IS NOT NULL;
+
+COMMENT ON INDEX idx_messages_org_whatsapp_sid_unique IS 'Idempotency for Twilio webhook retries (keyed on MessageSid)';
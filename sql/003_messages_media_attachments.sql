@@ -0,0 +1,23 @@
+-- Migration: Per-attachment media metadata on messages
+-- Description: Stores every inbound attachment (MediaUrl0..N) with its own media type
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS media_attachments JSONB DEFAULT '[]'::jsonb;
+
+-- Backfill: existing rows had at most one attachment type (media_type)
+UPDATE messages
+SET media_attachments = (
+  SELECT jsonb_agg(jsonb_build_object(
+    'url', url,
+    'content_type', '',
+    'media_type', COALESCE(media_type, 'document')
+  ))
+  FROM unnest(media_urls) AS url
+)
+WHERE media_urls IS NOT NULL
+  AND array_length(media_urls, 1) > 0
+  AND (media_attachments IS NULL OR media_attachments = '[]'::jsonb);
+
+COMMENT ON COLUMN messages.media_attachments IS 'Array of { url, content_type, media_type } - one entry per attachment';
+COMMENT ON COLUMN messages.media_type IS 'Media type of the first attachment (kept for compatibility, see media_attachments)';
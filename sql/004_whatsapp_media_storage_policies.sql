@@ -0,0 +1,15 @@
+-- Migration: Storage policies for re-hosted WhatsApp media
+-- Description: Buckets "whatsapp-media-<organization_id>" are created by the backend (private);
+--              this policy lets CRM users read the media of their own organization
+-- Run this in Supabase SQL Editor
+
+CREATE POLICY "Users can read their organization's WhatsApp media"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id LIKE 'whatsapp-media-%'
+    AND substring(bucket_id FROM 16)::uuid IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,8 @@
+-- Migration: Audio transcription on messages
+-- Description: Stores the transcript of inbound voice notes (fed into the AI batch)
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS transcription TEXT;
+
+COMMENT ON COLUMN messages.transcription IS 'Transcript of audio attachments (voice notes), generated before AI processing';
@@ -0,0 +1,12 @@
+-- Migration: AI follow-up settings on agents
+-- Description: Automatic follow-up when the contact goes silent after an AI reply
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS followup_delay_hours NUMERIC,
+ADD COLUMN IF NOT EXISTS followup_max_attempts INTEGER DEFAULT 1,
+ADD COLUMN IF NOT EXISTS followup_template_id UUID REFERENCES whatsapp_templates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN ai_agents.followup_delay_hours IS 'Hours of silence before the agent sends a follow-up (NULL/0 = disabled)';
+COMMENT ON COLUMN ai_agents.followup_max_attempts IS 'Maximum follow-ups in a row without a reply from the contact';
+COMMENT ON COLUMN ai_agents.followup_template_id IS 'Approved template used when the 24h session window is closed';
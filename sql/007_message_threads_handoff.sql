@@ -0,0 +1,23 @@
+-- Migration: Handoff state machine on message threads
+-- Description: ai_active -> human_pending -> human_active -> (ai_active | resolved)
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE message_threads
+ADD COLUMN IF NOT EXISTS handoff_status TEXT NOT NULL DEFAULT 'ai_active'
+  CHECK (handoff_status IN ('ai_active', 'human_pending', 'human_active', 'resolved')),
+ADD COLUMN IF NOT EXISTS handoff_updated_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS handoff_reason TEXT,
+ADD COLUMN IF NOT EXISTS handoff_user_id UUID;
+
+-- Threads already flagged by transfer_to_human
+UPDATE message_threads
+SET handoff_status = 'human_pending', handoff_updated_at = now()
+WHERE needs_human_attention = true AND handoff_status = 'ai_active';
+
+-- Auto-return sweeper
+CREATE INDEX IF NOT EXISTS idx_message_threads_handoff_human
+  ON message_threads(handoff_status, handoff_updated_at)
+  WHERE handoff_status IN ('human_pending', 'human_active');
+
+COMMENT ON COLUMN message_threads.handoff_status IS 'Who owns the thread: ai_active, human_pending, human_active, resolved';
+COMMENT ON COLUMN message_threads.handoff_updated_at IS 'Last handoff transition or human activity (drives the auto-return timeout)';
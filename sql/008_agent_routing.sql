@@ -0,0 +1,27 @@
+-- Migration: Route threads to a specific AI agent
+-- Description: Routing rules on agents + persisted assignment on threads
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS routing_rules JSONB,
+ADD COLUMN IF NOT EXISTS routing_priority INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS is_default BOOLEAN NOT NULL DEFAULT false;
+
+-- At most one default agent per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_agents_default_per_org
+  ON ai_agents(organization_id)
+  WHERE is_default = true;
+
+ALTER TABLE message_threads
+ADD COLUMN IF NOT EXISTS assigned_agent_id UUID REFERENCES ai_agents(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_agent_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS whatsapp_business_number TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_assigned_agent
+  ON message_threads(organization_id, assigned_agent_id);
+
+COMMENT ON COLUMN ai_agents.routing_rules IS 'Routing conditions: whatsapp_numbers, opportunity_stage_ids, product_keywords, business_hours (all set conditions must match)';
+COMMENT ON COLUMN ai_agents.routing_priority IS 'Higher priority wins when several agents match';
+COMMENT ON COLUMN ai_agents.is_default IS 'Fallback agent when no routing rule matches';
+COMMENT ON COLUMN message_threads.assigned_agent_id IS 'AI agent that answers this thread (sticky until reassigned)';
+COMMENT ON COLUMN message_threads.whatsapp_business_number IS 'Business number (Twilio To) that received the last inbound message';
@@ -0,0 +1,14 @@
+-- Migration: Per-agent model settings
+-- Description: Model, max tokens, temperature and history length per AI agent
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS model TEXT,
+ADD COLUMN IF NOT EXISTS max_tokens INTEGER CHECK (max_tokens IS NULL OR max_tokens BETWEEN 1 AND 8192),
+ADD COLUMN IF NOT EXISTS temperature NUMERIC CHECK (temperature IS NULL OR temperature BETWEEN 0 AND 1),
+ADD COLUMN IF NOT EXISTS history_limit INTEGER CHECK (history_limit IS NULL OR history_limit BETWEEN 1 AND 200);
+
+COMMENT ON COLUMN ai_agents.model IS 'Anthropic model id (NULL = claude-sonnet-4-20250514)';
+COMMENT ON COLUMN ai_agents.max_tokens IS 'Max output tokens per call (NULL = 1024)';
+COMMENT ON COLUMN ai_agents.temperature IS 'Sampling temperature 0-1 (NULL = API default)';
+COMMENT ON COLUMN ai_agents.history_limit IS 'Number of recent messages sent as history (NULL = 20)';
@@ -0,0 +1,8 @@
+-- Migration: Per-agent tool selection
+-- Description: Each agent exposes a subset of the registered tools
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS enabled_tools TEXT[];
+
+COMMENT ON COLUMN ai_agents.enabled_tools IS 'Tool names or permissions (e.g. contacts:write) exposed to the agent (NULL = default tools)';
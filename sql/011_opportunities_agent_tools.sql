@@ -0,0 +1,15 @@
+-- Migration: Opportunity fields used by the agent tools
+-- Description: create_opportunity / update_opportunity (product, stage, value, close date)
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE opportunities
+ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS stage_id UUID REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS value NUMERIC(14, 2) CHECK (value IS NULL OR value >= 0),
+ADD COLUMN IF NOT EXISTS expected_close_date DATE,
+ADD COLUMN IF NOT EXISTS source TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_contact
+  ON opportunities(organization_id, contact_id);
+
+COMMENT ON COLUMN opportunities.source IS 'Who opened the opportunity (ai_agent, user, import)';
@@ -0,0 +1,74 @@
+-- Migration: Scheduling (availability slots + meetings)
+-- Description: Per-user availability the AI agent books meetings against
+-- Run this in Supabase SQL Editor
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS availability_slots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'booked', 'blocked')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  CONSTRAINT availability_slots_valid_range CHECK (ends_at > starts_at),
+  -- Same user cannot publish overlapping slots
+  CONSTRAINT availability_slots_no_overlap EXCLUDE USING gist (
+    user_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+  ) WHERE (status <> 'blocked')
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_slots_open
+  ON availability_slots(organization_id, starts_at)
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS meetings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  slot_id UUID NOT NULL REFERENCES availability_slots(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES message_threads(id) ON DELETE SET NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled', 'completed')),
+  notes TEXT,
+  reminder_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- One active meeting per slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meetings_active_slot
+  ON meetings(slot_id)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_meetings_org_starts_at ON meetings(organization_id, starts_at);
+
+ALTER TABLE availability_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meetings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their organization's availability"
+  ON availability_slots
+  FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage their organization's meetings"
+  ON meetings
+  FOR ALL
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE availability_slots IS 'Free time slots published per user; the AI agent books them (open -> booked)';
+COMMENT ON TABLE meetings IS 'Meetings booked by the AI agent (confirmation and reminder sent via the outbound queue)';
@@ -0,0 +1,8 @@
+-- Migration: Selected option on inbound messages
+-- Description: Quick reply (ButtonPayload) / list (ListId) selection tapped by the contact
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS selected_option_id TEXT;
+
+COMMENT ON COLUMN messages.selected_option_id IS 'Button payload or list row id tapped by the contact (details in metadata.interactive_reply)';
@@ -0,0 +1,12 @@
+-- Migration: AI turn on outbound messages
+-- Description: Long AI replies are split into several messages sharing the same turn
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS ai_turn_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_messages_ai_turn
+  ON messages(ai_turn_id)
+  WHERE ai_turn_id IS NOT NULL;
+
+COMMENT ON COLUMN messages.ai_turn_id IS 'AI agent turn that produced this message (segment position in metadata.ai_segment)';
@@ -0,0 +1,9 @@
+-- Migration: Typing presence TTL
+-- Description: agent_typing expires after TYPING_TTL_SECONDS without a heartbeat; the sweeper clears stale flags
+-- Run this in Supabase SQL Editor
+
+CREATE INDEX IF NOT EXISTS idx_message_threads_agent_typing
+  ON message_threads(agent_typing_at)
+  WHERE agent_typing = true;
+
+COMMENT ON COLUMN message_threads.agent_typing_at IS 'Last typing heartbeat; agent_typing is only valid within TYPING_TTL_SECONDS of this timestamp';
@@ -0,0 +1,15 @@
+-- Migration: Token-budgeted history with rolling summaries
+-- Description: Per-agent history token budget and per-thread summary of messages outside the history window
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_agents
+ADD COLUMN IF NOT EXISTS history_token_budget INTEGER CHECK (history_token_budget IS NULL OR history_token_budget BETWEEN 500 AND 100000);
+
+ALTER TABLE message_threads
+ADD COLUMN IF NOT EXISTS history_summary TEXT,
+ADD COLUMN IF NOT EXISTS history_summarized_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS history_summary_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN ai_agents.history_token_budget IS 'Estimated token budget for conversation history (NULL = 6000)';
+COMMENT ON COLUMN message_threads.history_summary IS 'Rolling summary of messages older than the AI history window';
+COMMENT ON COLUMN message_threads.history_summarized_until IS 'created_at of the last message folded into history_summary';
@@ -0,0 +1,79 @@
+-- Migration: AI usage ledger
+-- Description: One row per Anthropic / Voyage call (tokens + estimated cost) for reporting and monthly budgets
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES ai_agents(id) ON DELETE SET NULL,
+  thread_id UUID REFERENCES message_threads(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('anthropic', 'voyage')),
+  kind TEXT NOT NULL CHECK (kind IN ('completion', 'embedding', 'rerank')),
+  model TEXT NOT NULL,
+  purpose TEXT NOT NULL, -- reply, followup, summary, rag
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  embedding_tokens INTEGER NOT NULL DEFAULT 0,
+  rerank_calls INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_org_created
+  ON ai_usage_events(organization_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_thread
+  ON ai_usage_events(thread_id)
+  WHERE thread_id IS NOT NULL;
+
+ALTER TABLE ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's AI usage"
+  ON ai_usage_events
+  FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- Aggregated usage for reports and budget checks
+CREATE OR REPLACE FUNCTION ai_usage_summary(
+  p_org_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  agent_id UUID,
+  provider TEXT,
+  kind TEXT,
+  model TEXT,
+  requests BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  embedding_tokens BIGINT,
+  rerank_calls BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.agent_id,
+    e.provider,
+    e.kind,
+    e.model,
+    COUNT(*) AS requests,
+    SUM(e.input_tokens) AS input_tokens,
+    SUM(e.output_tokens) AS output_tokens,
+    SUM(e.embedding_tokens) AS embedding_tokens,
+    SUM(e.rerank_calls) AS rerank_calls,
+    SUM(e.cost_usd) AS cost_usd
+  FROM ai_usage_events e
+  WHERE e.organization_id = p_org_id
+    AND e.created_at >= p_from
+    AND e.created_at < p_to
+  GROUP BY e.agent_id, e.provider, e.kind, e.model;
+$$;
+
+COMMENT ON TABLE ai_usage_events IS 'AI usage ledger: tokens and estimated cost per Anthropic / Voyage call';
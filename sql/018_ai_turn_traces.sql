@@ -0,0 +1,42 @@
+-- Migration: AI turn traces
+-- Description: One trace per AI agent turn (prompt sections, RAG chunks, tool calls, model calls, reply)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS ai_turn_traces (
+  id UUID PRIMARY KEY, -- same value as messages.ai_turn_id
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES message_threads(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES ai_agents(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  model TEXT,
+  system_prompt TEXT,
+  prompt_sections JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rag_chunks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  llm_calls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tool_calls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  response TEXT,
+  message_ids UUID[] NOT NULL DEFAULT '{}',
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_turn_traces_thread
+  ON ai_turn_traces(organization_id, thread_id, created_at DESC);
+
+ALTER TABLE ai_turn_traces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's AI traces"
+  ON ai_turn_traces
+  FOR SELECT
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE ai_turn_traces IS 'Debug trace of each AI agent turn; id matches messages.ai_turn_id of the messages it sent';
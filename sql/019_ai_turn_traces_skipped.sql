@@ -0,0 +1,14 @@
+-- Migration: Skipped AI turn traces
+-- Description: Turns that stop before calling the model (budget exhausted, nothing to answer) also get a trace
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_turn_traces
+ADD COLUMN IF NOT EXISTS reason TEXT;
+
+ALTER TABLE ai_turn_traces
+DROP CONSTRAINT IF EXISTS ai_turn_traces_status_check;
+
+ALTER TABLE ai_turn_traces
+ADD CONSTRAINT ai_turn_traces_status_check CHECK (status IN ('completed', 'failed', 'skipped'));
+
+COMMENT ON COLUMN ai_turn_traces.reason IS 'Why a turn was skipped: budget_exceeded, no_valid_messages';
@@ -0,0 +1,6 @@
+-- Migration: Drop per-agent follow-up template
+-- Description: Follow-ups outside the 24h window use the org session fallback template (session_fallback_template_id)
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_agents
+DROP COLUMN IF EXISTS followup_template_id;
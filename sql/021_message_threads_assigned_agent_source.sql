@@ -0,0 +1,14 @@
+-- Migration: Agent assignment source on threads
+-- Description: Manual assignments stay sticky; rule assignments are re-evaluated on every batch
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE message_threads
+ADD COLUMN IF NOT EXISTS assigned_agent_source TEXT
+  CHECK (assigned_agent_source IN ('manual', 'rule'));
+
+-- Existing assignments came from routing
+UPDATE message_threads
+SET assigned_agent_source = 'rule'
+WHERE assigned_agent_id IS NOT NULL AND assigned_agent_source IS NULL;
+
+COMMENT ON COLUMN message_threads.assigned_agent_source IS 'manual = set via the CRM (sticky); rule = set by routing (re-evaluated on every batch)';
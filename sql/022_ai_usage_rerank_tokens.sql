@@ -0,0 +1,56 @@
+-- Migration: Rerank tokens on the AI usage ledger
+-- Description: Voyage rerank tokens get their own column instead of being counted as embedding tokens
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE ai_usage_events
+ADD COLUMN IF NOT EXISTS rerank_tokens INTEGER NOT NULL DEFAULT 0;
+
+-- Rerank rows recorded before this migration stored their tokens in embedding_tokens
+UPDATE ai_usage_events
+SET rerank_tokens = embedding_tokens,
+    embedding_tokens = 0
+WHERE kind = 'rerank' AND embedding_tokens > 0 AND rerank_tokens = 0;
+
+-- Return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS ai_usage_summary(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE FUNCTION ai_usage_summary(
+  p_org_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  agent_id UUID,
+  provider TEXT,
+  kind TEXT,
+  model TEXT,
+  requests BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  embedding_tokens BIGINT,
+  rerank_tokens BIGINT,
+  rerank_calls BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.agent_id,
+    e.provider,
+    e.kind,
+    e.model,
+    COUNT(*) AS requests,
+    SUM(e.input_tokens) AS input_tokens,
+    SUM(e.output_tokens) AS output_tokens,
+    SUM(e.embedding_tokens) AS embedding_tokens,
+    SUM(e.rerank_tokens) AS rerank_tokens,
+    SUM(e.rerank_calls) AS rerank_calls,
+    SUM(e.cost_usd) AS cost_usd
+  FROM ai_usage_events e
+  WHERE e.organization_id = p_org_id
+    AND e.created_at >= p_from
+    AND e.created_at < p_to
+  GROUP BY e.agent_id, e.provider, e.kind, e.model;
+$$;
+
+COMMENT ON COLUMN ai_usage_events.rerank_tokens IS 'Tokens billed by Voyage rerank calls (embedding calls use embedding_tokens)';
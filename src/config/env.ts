@@ -4,6 +4,7 @@ export const env = {
   // Server
   PORT: parseInt(process.env.PORT || '3000'),
   NODE_ENV: process.env.NODE_ENV || 'development',
+  WEBHOOK_BASE_URL: process.env.WEBHOOK_BASE_URL, // URL pública (validação de assinatura do Twilio)
   
   // Supabase
   SUPABASE_URL: process.env.SUPABASE_URL!,
@@ -13,6 +14,15 @@ export const env = {
   INNGEST_EVENT_KEY: process.env.INNGEST_EVENT_KEY,
   INNGEST_SIGNING_KEY: process.env.INNGEST_SIGNING_KEY,
   
+  // Handoff: horas sem atividade humana até devolver a thread para a AI (0 = nunca)
+  HANDOFF_AUTO_RETURN_HOURS: parseFloat(process.env.HANDOFF_AUTO_RETURN_HOURS || '12'),
+
+  // Presença: segundos até um "digitando" sem heartbeat expirar
+  TYPING_TTL_SECONDS: parseInt(process.env.TYPING_TTL_SECONDS || '30'),
+
+  // Agendamento: minutos antes da reunião para enviar o lembrete
+  MEETING_REMINDER_MINUTES: parseInt(process.env.MEETING_REMINDER_MINUTES || '60'),
+
   // Twilio
   TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID,
   TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
@@ -21,6 +31,8 @@ export const env = {
   // AI
   ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
   VOYAGE_API_KEY: process.env.VOYAGE_API_KEY,
+  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  TRANSCRIPTION_PROVIDER: process.env.TRANSCRIPTION_PROVIDER || 'openai', // openai | stub
 } as const;
 
 // Validar variáveis obrigatórias
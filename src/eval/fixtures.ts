@@ -0,0 +1,178 @@
+// src/eval/fixtures.ts
+// Fixtures de conversa para a avaliação offline (eval/fixtures/*.json)
+//
+// Cada fixture descreve o estado da organização (agente, produtos, base de
+// conhecimento), o histórico da thread, a mensagem atual do cliente, as respostas
+// gravadas da Anthropic e o que se espera do turno.
+
+import { readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MemoryDatabase } from './memory-db.js';
+import type { KnowledgeFixtureChunk, RecordedResponse } from './providers.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface FixtureExpectations {
+  products?: string[]; // slugs (ou ids) que o RAG deve detectar
+  chunks?: string[]; // títulos (ou ids) que devem estar entre os chunks escolhidos
+  tools?: string[]; // tools que o agente deve chamar
+  forbidden_tools?: string[];
+  forbidden_phrases?: string[]; // não podem aparecer na resposta
+  required_phrases?: string[]; // precisam aparecer na resposta
+}
+
+export interface EvalFixture {
+  name: string;
+  description?: string;
+  agent?: Record<string, any>; // colunas de ai_agents (system_prompt, enabled_tools, model...)
+  claude_config?: Record<string, any>; // config_values da integração claude-ai
+  contact?: Record<string, any>;
+  memories?: Record<string, any>; // contact_memories
+  products?: Array<{ id: string; name: string; slug?: string }>;
+  knowledge?: KnowledgeFixtureChunk[];
+  tables?: Record<string, Array<Record<string, any>>>; // linhas extras (ex: pipeline_stages)
+  history?: Array<{ direction: 'inbound' | 'outbound' | 'internal'; content: string; sender_type?: string }>;
+  message: string;
+  recorded?: { anthropic?: RecordedResponse[] };
+  expect: FixtureExpectations;
+}
+
+export interface LoadedFixture {
+  file: string;
+  fixture: EvalFixture;
+}
+
+export interface SeededIds {
+  organizationId: string;
+  agentId: string;
+  contactId: string;
+  threadId: string;
+  currentMessageId: string;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+export const EVAL_IDS = {
+  organizationId: '00000000-0000-4000-8000-000000000001',
+  agentId: '00000000-0000-4000-8000-000000000002',
+  contactId: '00000000-0000-4000-8000-000000000003',
+  threadId: '00000000-0000-4000-8000-000000000004',
+  currentMessageId: '00000000-0000-4000-8000-000000000005',
+} satisfies SeededIds;
+
+const HISTORY_SPACING_MS = 60 * 1000;
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Carrega um arquivo de fixture ou todos os .json de um diretório
+ */
+export async function loadFixtures(target: string): Promise<LoadedFixture[]> {
+  const info = await stat(target);
+  const files = info.isDirectory()
+    ? (await readdir(target)).filter(f => f.endsWith('.json')).sort().map(f => path.join(target, f))
+    : [target];
+
+  const loaded: LoadedFixture[] = [];
+  for (const file of files) {
+    const fixture = JSON.parse(await readFile(file, 'utf8')) as EvalFixture;
+    if (!fixture.name || typeof fixture.message !== 'string' || !fixture.expect) {
+      throw new Error(`Invalid fixture ${file}: name, message and expect are required`);
+    }
+    loaded.push({ file, fixture });
+  }
+  return loaded;
+}
+
+/**
+ * Regrava a fixture com as respostas gravadas (--record)
+ */
+export async function saveRecordedResponses(loaded: LoadedFixture, responses: RecordedResponse[]): Promise<void> {
+  const fixture = { ...loaded.fixture, recorded: { ...loaded.fixture.recorded, anthropic: responses } };
+  await writeFile(loaded.file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * Popula o banco em memória com o estado descrito na fixture
+ */
+export function seedFixture(db: MemoryDatabase, fixture: EvalFixture, options: { apiKey?: string }): SeededIds {
+  const { organizationId, agentId, contactId, threadId, currentMessageId } = EVAL_IDS;
+  const now = Date.now();
+
+  db.seed('organization_integrations', [{
+    organization_id: organizationId,
+    is_enabled: true,
+    config_values: { ...fixture.claude_config, ...(options.apiKey ? { api_key: options.apiKey } : {}) },
+    admin_integrations: { slug: 'claude-ai' },
+  }]);
+
+  db.seed('ai_agents', [{
+    id: agentId,
+    organization_id: organizationId,
+    name: 'Agente de avaliação',
+    is_enabled: true,
+    is_default: true,
+    ...fixture.agent,
+  }]);
+
+  db.seed('contacts', [{
+    id: contactId,
+    organization_id: organizationId,
+    ...fixture.contact,
+  }]);
+
+  if (fixture.memories) {
+    db.seed('contact_memories', [{ contact_id: contactId, organization_id: organizationId, ...fixture.memories }]);
+  }
+
+  db.seed('message_threads', [{
+    id: threadId,
+    organization_id: organizationId,
+    contact_id: contactId,
+    channel: 'whatsapp',
+    handoff_status: 'ai_active',
+    assigned_agent_id: agentId,
+    whatsapp_last_inbound_at: new Date(now).toISOString(),
+  }]);
+
+  db.seed('products', (fixture.products || []).map(product => ({
+    organization_id: organizationId,
+    is_active: true,
+    ...product,
+  })));
+
+  const history = fixture.history || [];
+  db.seed('messages', [
+    ...history.map((message, index) => ({
+      organization_id: organizationId,
+      thread_id: threadId,
+      direction: message.direction,
+      sender_type: message.sender_type || (message.direction === 'inbound' ? 'contact' : 'agent'),
+      content: message.content,
+      ai_processed: true,
+      created_at: new Date(now - (history.length - index) * HISTORY_SPACING_MS).toISOString(),
+    })),
+    {
+      id: currentMessageId,
+      organization_id: organizationId,
+      thread_id: threadId,
+      direction: 'inbound',
+      sender_type: 'contact',
+      content: fixture.message,
+      ai_processed: false,
+      created_at: new Date(now).toISOString(),
+    },
+  ]);
+
+  for (const [table, rows] of Object.entries(fixture.tables || {})) {
+    db.seed(table, rows.map(row => ({ organization_id: organizationId, ...row })));
+  }
+
+  return EVAL_IDS;
+}
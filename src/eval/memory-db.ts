@@ -0,0 +1,322 @@
+// src/eval/memory-db.ts
+// Banco em memória atrás de um PostgREST falso (intercepta o fetch do supabase-js)
+//
+// O backend continua usando o cliente supabase de verdade: as requisições para
+// ${SUPABASE_URL}/rest/v1 são respondidas daqui. Suporta GET/HEAD/POST/PATCH/DELETE,
+// upsert (Prefer: resolution=*-duplicates + on_conflict), filtros (eq, neq, gt, gte, lt,
+// lte, in, is, like, ilike, not, or), order, limit/offset, objeto único (single/maybeSingle),
+// count e rpc com handlers registrados. Filtros em colunas aninhadas usam ponto
+// (ex: 'admin_integrations.slug'); o select devolve sempre a linha inteira.
+
+import { randomUUID } from 'node:crypto';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+export type RpcHandler = (args: Record<string, any>) => any;
+
+export interface RpcCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+// Parâmetros da URL que não são filtros
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns', 'or']);
+
+const SINGLE_ROW_ERROR = 'JSON object requested, multiple (or no) rows returned';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function getPath(row: Row, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), row as any);
+}
+
+// Valores chegam como texto na URL: compara pela forma textual da coluna
+function toText(value: any): string {
+  if (value == null) return 'null';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function compare(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareToText(value: any, raw: string): number {
+  return typeof value === 'number' ? value - Number(raw) : compare(toText(value), raw);
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+// Divide "a,b,(c,d),\"e,f\"" nas vírgulas de primeiro nível
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth--;
+
+    if (char === ',' && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) parts.push(current);
+  return parts;
+}
+
+function likePattern(pattern: string, flags: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[%*]/g, '.*');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+/**
+ * Filtro no formato do PostgREST: "op.valor" (ex: "eq.abc", "in.(a,b)", "not.is.null")
+ */
+function buildFilter(column: string, expression: string): Filter {
+  const dot = expression.indexOf('.');
+  const operator = dot === -1 ? expression : expression.slice(0, dot);
+  const raw = dot === -1 ? '' : expression.slice(dot + 1);
+  const value = (row: Row) => getPath(row, column);
+
+  switch (operator) {
+    case 'not': {
+      const filter = buildFilter(column, raw);
+      return row => !filter(row);
+    }
+    case 'eq': return row => value(row) != null && toText(value(row)) === raw;
+    case 'neq': return row => value(row) != null && toText(value(row)) !== raw;
+    case 'gt': return row => value(row) != null && compareToText(value(row), raw) > 0;
+    case 'gte': return row => value(row) != null && compareToText(value(row), raw) >= 0;
+    case 'lt': return row => value(row) != null && compareToText(value(row), raw) < 0;
+    case 'lte': return row => value(row) != null && compareToText(value(row), raw) <= 0;
+    case 'in': {
+      const values = splitTopLevel(raw.replace(/^\(|\)$/g, '')).map(unquote);
+      return row => value(row) != null && values.includes(toText(value(row)));
+    }
+    case 'is':
+      if (raw === 'null') return row => value(row) == null;
+      return row => value(row) === (raw === 'true');
+    case 'like':
+    case 'ilike': {
+      const pattern = likePattern(raw, operator === 'ilike' ? 'i' : '');
+      return row => pattern.test(toText(value(row) ?? ''));
+    }
+    default:
+      throw new Error(`memory-db: unsupported operator "${operator}"`);
+  }
+}
+
+// or=(col.op.valor,col.op.valor)
+function buildOrFilter(expression: string): Filter {
+  const filters = splitTopLevel(expression.replace(/^\(|\)$/g, '')).map(part => {
+    const dot = part.indexOf('.');
+    return buildFilter(part.slice(0, dot), part.slice(dot + 1));
+  });
+  return row => filters.some(filter => filter(row));
+}
+
+function parseOrder(order: string): Array<{ column: string; ascending: boolean }> {
+  return order.split(',').map(part => {
+    const tokens = part.split('.');
+    const modifiers = new Set(['asc', 'desc', 'nullsfirst', 'nullslast']);
+    return {
+      column: tokens.filter(token => !modifiers.has(token)).join('.'),
+      ascending: !tokens.includes('desc'),
+    };
+  });
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function contentRange(offset: number, length: number, total: number): string {
+  return length === 0 ? `*/${total}` : `${offset}-${offset + length - 1}/${total}`;
+}
+
+// =============================================================================
+// BANCO
+// =============================================================================
+
+export class MemoryDatabase {
+  private tables = new Map<string, Row[]>();
+  private rpcHandlers = new Map<string, RpcHandler>();
+  readonly rpcCalls: RpcCall[] = [];
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  replace(table: string, rows: Row[]): void {
+    this.tables.set(table, rows);
+  }
+
+  insert(table: string, values: Row): Row {
+    const row = { id: randomUUID(), created_at: new Date().toISOString(), ...values };
+    this.rows(table).push(row);
+    return row;
+  }
+
+  seed(table: string, rows: Row[]): void {
+    for (const row of rows) this.insert(table, row);
+  }
+
+  registerRpc(name: string, handler: RpcHandler): void {
+    this.rpcHandlers.set(name, handler);
+  }
+
+  /**
+   * Responde as requisições do supabase-js para este banco
+   * Retorna a função que restaura o fetch anterior
+   */
+  install(supabaseUrl: string): () => void {
+    const previousFetch = globalThis.fetch;
+    const restUrl = `${supabaseUrl.replace(/\/$/, '')}/rest/v1/`;
+
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      if (!url.startsWith(restUrl)) {
+        return previousFetch(input, init);
+      }
+
+      const request = new Request(input, init);
+      const path = new URL(request.url).pathname.slice(new URL(restUrl).pathname.length);
+      return path.startsWith('rpc/')
+        ? this.handleRpc(path.slice('rpc/'.length), request)
+        : this.handleTable(path, request);
+    };
+
+    return () => {
+      globalThis.fetch = previousFetch;
+    };
+  }
+
+  private async handleRpc(name: string, request: Request): Promise<Response> {
+    const args = request.method === 'POST'
+      ? JSON.parse((await request.text()) || '{}')
+      : Object.fromEntries(new URL(request.url).searchParams);
+
+    this.rpcCalls.push({ name, args });
+    const handler = this.rpcHandlers.get(name);
+    if (!handler) {
+      return jsonResponse({ code: 'PGRST202', message: `memory-db: function ${name} not registered`, details: null, hint: null }, 404);
+    }
+
+    return jsonResponse((await handler(args)) ?? null);
+  }
+
+  private async handleTable(table: string, request: Request): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+    const prefer = request.headers.get('Prefer') || '';
+    const single = (request.headers.get('Accept') || '').includes('application/vnd.pgrst.object');
+    const body = ['POST', 'PATCH'].includes(request.method) ? JSON.parse((await request.text()) || 'null') : null;
+
+    const filters: Filter[] = [];
+    for (const [key, expression] of params) {
+      if (key === 'or') filters.push(buildOrFilter(expression));
+      else if (!RESERVED_PARAMS.has(key) && !key.endsWith('.order') && !key.endsWith('.limit')) {
+        filters.push(buildFilter(key, expression));
+      }
+    }
+    const matches = () => this.rows(table).filter(row => filters.every(filter => filter(row)));
+
+    let rows: Row[];
+    let offset = 0;
+    let total: number;
+
+    switch (request.method) {
+      case 'POST': {
+        const values: Row[] = Array.isArray(body) ? body : [body];
+        const resolution = prefer.match(/resolution=(merge|ignore)-duplicates/)?.[1];
+        const conflictColumns = (params.get('on_conflict') || 'id').split(',').map(c => c.trim());
+
+        rows = values.flatMap(value => {
+          const existing = resolution && this.rows(table).find(row =>
+            conflictColumns.every(column => value[column] !== undefined && row[column] === value[column])
+          );
+          if (!existing) return [this.insert(table, value)];
+          return resolution === 'merge' ? [Object.assign(existing, value)] : [];
+        });
+        total = rows.length;
+        break;
+      }
+
+      case 'PATCH':
+        rows = matches().map(row => Object.assign(row, body));
+        total = rows.length;
+        break;
+
+      case 'DELETE': {
+        const removed = new Set(matches());
+        this.replace(table, this.rows(table).filter(row => !removed.has(row)));
+        rows = [...removed];
+        total = rows.length;
+        break;
+      }
+
+      default: {
+        rows = matches();
+        for (const { column, ascending } of parseOrder(params.get('order') || '').reverse()) {
+          if (!column) continue;
+          rows = [...rows].sort((a, b) => compare(getPath(a, column), getPath(b, column)) * (ascending ? 1 : -1));
+        }
+
+        total = rows.length;
+        offset = Number(params.get('offset')) || 0;
+        const limit = params.get('limit');
+        rows = rows.slice(offset, limit !== null ? offset + Number(limit) : undefined);
+      }
+    }
+
+    const headers = { 'Content-Range': contentRange(offset, rows.length, total) };
+
+    if (request.method === 'HEAD') {
+      return new Response(null, { status: 200, headers });
+    }
+
+    const writes = request.method !== 'GET';
+    if (writes && !prefer.includes('return=representation')) {
+      return new Response(null, { status: request.method === 'POST' ? 201 : 204, headers });
+    }
+
+    if (single) {
+      if (rows.length !== 1) {
+        return jsonResponse({
+          code: 'PGRST116',
+          message: SINGLE_ROW_ERROR,
+          details: `The result contains ${rows.length} rows`,
+          hint: null,
+        }, 406);
+      }
+      return jsonResponse(rows[0], writes ? 201 : 200, headers);
+    }
+
+    return jsonResponse(rows, writes && request.method === 'POST' ? 201 : 200, headers);
+  }
+}
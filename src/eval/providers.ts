@@ -0,0 +1,248 @@
+// src/eval/providers.ts
+// Anthropic (respostas gravadas ou API real gravando) e Voyage (stub determinístico)
+// Os dois interceptam o fetch global: o backend usa os clientes de verdade
+//
+// O stub da Voyage usa embeddings de "saco de palavras" com hashing: a similaridade
+// é lexical, suficiente para comparar versões do pipeline (detecção de produto,
+// filtros por escopo, rerank), não para medir a qualidade dos embeddings reais.
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { MemoryDatabase } from './memory-db.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export type AnthropicMode = 'replay' | 'record' | 'live';
+
+// Resposta gravada (o necessário para reproduzir o turno)
+export interface RecordedResponse {
+  model?: string;
+  content: Anthropic.ContentBlock[];
+  stop_reason: Anthropic.Message['stop_reason'];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export interface AnthropicStub {
+  // Começa uma fixture: respostas para o replay; retorna a lista onde as novas são gravadas
+  load(responses: RecordedResponse[]): RecordedResponse[];
+  restore(): void;
+}
+
+export interface KnowledgeFixtureChunk {
+  id?: string;
+  title: string;
+  content: string;
+  scope?: 'product' | 'global';
+  category?: string;
+  product_id?: string | null;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const EMBEDDING_DIMENSIONS = 1024; // mesmo tamanho validado em rag.ts
+const VOYAGE_API_URL = 'https://api.voyageai.com/v1';
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const MIN_TOKEN_LENGTH = 3;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function requestUrl(input: string | URL | Request): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// =============================================================================
+// ANTHROPIC
+// =============================================================================
+
+/**
+ * Intercepta POST /v1/messages da Anthropic
+ * replay: devolve as respostas gravadas em ordem; record/live: chama a API real e grava cada resposta
+ *
+ * O shim web do SDK guarda o fetch global quando é importado: instalar antes de
+ * '@anthropic-ai/sdk/shims/web' (e de qualquer import do SDK)
+ */
+export function installAnthropicStub(mode: AnthropicMode): AnthropicStub {
+  const originalFetch = globalThis.fetch;
+  let queue: RecordedResponse[] = [];
+  let recorded: RecordedResponse[] = [];
+  let served = 0;
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    if (!requestUrl(input).startsWith(ANTHROPIC_MESSAGES_URL)) {
+      return originalFetch(input, init);
+    }
+
+    if (mode !== 'replay') {
+      const response = await originalFetch(input, init);
+      if (response.ok) {
+        const message = await response.clone().json() as Anthropic.Message;
+        recorded.push({
+          model: message.model,
+          content: message.content,
+          stop_reason: message.stop_reason,
+          usage: { input_tokens: message.usage.input_tokens, output_tokens: message.usage.output_tokens },
+        });
+      }
+      return response;
+    }
+
+    const next = queue.shift();
+    if (!next) {
+      return jsonResponse({
+        type: 'error',
+        error: { type: 'invalid_request_error', message: 'No recorded Anthropic response left for this fixture (run with --record)' },
+      }, 400);
+    }
+
+    const params = JSON.parse(String(init?.body || '{}'));
+    served++;
+    return jsonResponse({
+      id: `msg_replay_${served}`,
+      type: 'message',
+      role: 'assistant',
+      model: next.model || params.model,
+      content: next.content,
+      stop_reason: next.stop_reason,
+      stop_sequence: null,
+      usage: next.usage || { input_tokens: 0, output_tokens: 0 },
+    });
+  };
+
+  return {
+    load(responses) {
+      queue = [...responses];
+      recorded = [];
+      served = 0;
+      return recorded;
+    },
+    restore() {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
+
+// =============================================================================
+// VOYAGE (STUB)
+// =============================================================================
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= MIN_TOKEN_LENGTH);
+}
+
+function hashToken(token: string): number {
+  // FNV-1a 32 bits
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % EMBEDDING_DIMENSIONS;
+}
+
+export function stubEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of tokenize(text)) {
+    vector[hashToken(token)] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Intercepta as chamadas HTTP da Voyage (embeddings e rerank)
+ * Retorna a função que restaura o fetch original
+ */
+export function installVoyageStub(): () => void {
+  const originalFetch = globalThis.fetch;
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = requestUrl(input);
+    if (!url.startsWith(VOYAGE_API_URL)) {
+      return originalFetch(input, init);
+    }
+
+    const body = JSON.parse(String(init?.body || '{}'));
+
+    if (url.endsWith('/embeddings')) {
+      const inputs: string[] = Array.isArray(body.input) ? body.input : [body.input];
+      return jsonResponse({
+        data: inputs.map((text, index) => ({ index, embedding: stubEmbedding(text) })),
+        usage: { total_tokens: inputs.reduce((sum, text) => sum + tokenize(text).length, 0) },
+      });
+    }
+
+    if (url.endsWith('/rerank')) {
+      const query = stubEmbedding(body.query);
+      const documents: string[] = body.documents || [];
+      const ranked = documents
+        .map((document, index) => ({ index, relevance_score: cosineSimilarity(query, stubEmbedding(document)) }))
+        .sort((a, b) => b.relevance_score - a.relevance_score)
+        .slice(0, body.top_k || documents.length);
+      return jsonResponse({
+        data: ranked,
+        usage: { total_tokens: tokenize(body.query).length + documents.reduce((sum, d) => sum + tokenize(d).length, 0) },
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  };
+
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
+
+/**
+ * Registra as funções de busca da base de conhecimento (search_knowledge_*)
+ * Similaridade = cosseno lexical, deslocado para [0.5, 1] para passar dos thresholds reais
+ */
+export function registerKnowledgeSearch(db: MemoryDatabase, chunks: KnowledgeFixtureChunk[]): void {
+  const indexed = chunks.map((chunk, index) => ({
+    id: chunk.id || `chunk_${index + 1}`,
+    title: chunk.title,
+    content: chunk.content,
+    scope: chunk.scope || (chunk.product_id ? 'product' : 'global'),
+    category: chunk.category || 'geral',
+    product_id: chunk.product_id || null,
+    embedding: stubEmbedding(`${chunk.title} ${chunk.content}`),
+  }));
+
+  const search = (args: Record<string, any>, filter: (chunk: typeof indexed[number]) => boolean) =>
+    indexed
+      .filter(filter)
+      .map(({ embedding, ...chunk }) => ({
+        ...chunk,
+        similarity: 0.5 + cosineSimilarity(args.query_embedding, embedding) / 2,
+      }))
+      .filter(chunk => chunk.similarity >= (args.match_threshold ?? 0))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, args.match_count ?? indexed.length);
+
+  db.registerRpc('search_knowledge_product', args => search(args, chunk => chunk.product_id === args.p_product_id));
+  db.registerRpc('search_knowledge_global', args => search(args, chunk => chunk.scope === 'global'));
+  db.registerRpc('search_knowledge_all', args => search(args, () => true));
+}
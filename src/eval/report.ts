@@ -0,0 +1,186 @@
+// src/eval/report.ts
+// Pontuação das fixtures e relatório de regressão
+
+import { readFile } from 'node:fs/promises';
+import type { FixtureExpectations } from './fixtures.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface TurnObservation {
+  detectedProducts: string[]; // slugs (ou ids quando o produto não tem slug)
+  chunks: Array<{ id?: string; title?: string }>;
+  toolsExecuted?: string[];
+  response?: string | null;
+  error?: string;
+}
+
+export interface CheckResult {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface FixtureReport {
+  name: string;
+  file: string;
+  checks: CheckResult[];
+  response?: string | null;
+  error?: string;
+}
+
+export interface EvalReport {
+  generated_at: string;
+  mode: string;
+  fixtures: FixtureReport[];
+}
+
+// =============================================================================
+// PONTUAÇÃO
+// =============================================================================
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function list(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : '(nenhum)';
+}
+
+/**
+ * Compara o que aconteceu no turno com as expectativas da fixture
+ */
+export function scoreTurn(expect: FixtureExpectations, observed: TurnObservation): CheckResult[] {
+  const checks: CheckResult[] = [];
+
+  if (observed.error) {
+    checks.push({ name: 'execution', passed: false, detail: observed.error });
+  }
+
+  if (expect.products) {
+    const missing = expect.products.filter(p => !observed.detectedProducts.includes(p));
+    checks.push({
+      name: 'products',
+      passed: missing.length === 0,
+      detail: missing.length === 0
+        ? `detectados: ${list(observed.detectedProducts)}`
+        : `faltando: ${list(missing)} (detectados: ${list(observed.detectedProducts)})`,
+    });
+  }
+
+  if (expect.chunks) {
+    const retrieved = observed.chunks.flatMap(c => [c.id, c.title].filter((v): v is string => !!v));
+    const missing = expect.chunks.filter(c => !retrieved.includes(c));
+    checks.push({
+      name: 'chunks',
+      passed: missing.length === 0,
+      detail: missing.length === 0
+        ? `${expect.chunks.length} esperado(s) recuperado(s)`
+        : `faltando: ${list(missing)} (recuperados: ${list(observed.chunks.map(c => c.title || c.id || '?'))})`,
+    });
+  }
+
+  const tools = observed.toolsExecuted || [];
+
+  if (expect.tools) {
+    const missing = expect.tools.filter(t => !tools.includes(t));
+    checks.push({
+      name: 'tools',
+      passed: missing.length === 0,
+      detail: missing.length === 0 ? `chamadas: ${list(tools)}` : `faltando: ${list(missing)} (chamadas: ${list(tools)})`,
+    });
+  }
+
+  if (expect.forbidden_tools) {
+    const called = expect.forbidden_tools.filter(t => tools.includes(t));
+    checks.push({
+      name: 'forbidden_tools',
+      passed: called.length === 0,
+      detail: called.length === 0 ? 'nenhuma tool proibida' : `chamadas: ${list(called)}`,
+    });
+  }
+
+  const response = normalize(observed.response || '');
+
+  if (expect.forbidden_phrases) {
+    const found = expect.forbidden_phrases.filter(p => response.includes(normalize(p)));
+    checks.push({
+      name: 'forbidden_phrases',
+      passed: found.length === 0,
+      detail: found.length === 0 ? 'nenhuma frase proibida' : `encontradas: ${list(found)}`,
+    });
+  }
+
+  if (expect.required_phrases) {
+    const missing = expect.required_phrases.filter(p => !response.includes(normalize(p)));
+    checks.push({
+      name: 'required_phrases',
+      passed: missing.length === 0,
+      detail: missing.length === 0 ? 'todas presentes' : `faltando: ${list(missing)}`,
+    });
+  }
+
+  return checks;
+}
+
+// =============================================================================
+// RELATÓRIO
+// =============================================================================
+
+export async function loadBaseline(file: string): Promise<EvalReport> {
+  return JSON.parse(await readFile(file, 'utf8')) as EvalReport;
+}
+
+/**
+ * Checks que passavam no baseline e agora falham
+ */
+export function findRegressions(report: EvalReport, baseline: EvalReport): Array<{ fixture: string; check: string }> {
+  const regressions: Array<{ fixture: string; check: string }> = [];
+
+  for (const fixture of report.fixtures) {
+    const previous = baseline.fixtures.find(f => f.name === fixture.name);
+    if (!previous) continue;
+
+    for (const check of fixture.checks) {
+      const before = previous.checks.find(c => c.name === check.name);
+      if (before?.passed && !check.passed) {
+        regressions.push({ fixture: fixture.name, check: check.name });
+      }
+    }
+  }
+
+  return regressions;
+}
+
+/**
+ * Imprime o relatório no terminal
+ */
+export function printReport(report: EvalReport, regressions: Array<{ fixture: string; check: string }> | null): void {
+  const total = report.fixtures.reduce((sum, f) => sum + f.checks.length, 0);
+  const passed = report.fixtures.reduce((sum, f) => sum + f.checks.filter(c => c.passed).length, 0);
+  const width = Math.max(...report.fixtures.map(f => f.name.length), 10);
+
+  console.log(`\n📊 Avaliação offline: ${report.fixtures.length} fixture(s), modo ${report.mode}\n`);
+
+  for (const fixture of report.fixtures) {
+    const ok = fixture.checks.filter(c => c.passed).length;
+    const icon = ok === fixture.checks.length ? '✅' : '❌';
+    console.log(`${icon} ${fixture.name.padEnd(width)}  ${ok}/${fixture.checks.length}`);
+
+    for (const check of fixture.checks) {
+      if (!check.passed) console.log(`   ❌ ${check.name}: ${check.detail}`);
+    }
+  }
+
+  console.log(`\nTotal: ${passed}/${total} checks`);
+
+  if (regressions) {
+    if (regressions.length === 0) {
+      console.log('Nenhuma regressão em relação ao baseline');
+    } else {
+      console.log(`⚠️ ${regressions.length} regressão(ões) em relação ao baseline:`);
+      for (const r of regressions) console.log(`   - ${r.fixture}: ${r.check}`);
+    }
+  }
+}
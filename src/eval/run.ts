@@ -0,0 +1,220 @@
+// src/eval/run.ts
+// Avaliação offline do agente AI e do pipeline RAG
+//
+// Reproduz as fixtures de conversa (eval/fixtures) contra getRelevantContext e
+// processAIMessage com banco em memória, Voyage stub e respostas gravadas da
+// Anthropic, pontua cada turno e imprime o relatório de regressão. Os fakes ficam
+// no fetch global (PostgREST, Voyage, Anthropic): o backend roda sem ganchos de teste.
+//
+// Uso:
+//   npm run eval                                  # replay das respostas gravadas
+//   npm run eval -- eval/fixtures/visto.json      # uma fixture só
+//   npm run eval -- --record                      # chama a API real e regrava as respostas
+//   npm run eval -- --live                        # chama a API real sem regravar
+//   npm run eval -- --out report.json --baseline eval/baseline.json
+//   npm run eval -- --verbose                     # mostra os logs do backend
+
+import type { AnthropicMode } from './providers.js';
+import type { FixtureReport, EvalReport, TurnObservation } from './report.js';
+import type { LoadedFixture } from './fixtures.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+type EvalMode = AnthropicMode;
+
+interface CliOptions {
+  target: string;
+  mode: EvalMode;
+  out?: string;
+  baseline?: string;
+  verbose: boolean;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const DEFAULT_FIXTURES_DIR = 'eval/fixtures';
+const REPLAY_API_KEY = 'eval-replay';
+
+// Expectativas que exigem rodar o agente (as demais só dependem do RAG)
+const AGENT_EXPECTATIONS = ['tools', 'forbidden_tools', 'forbidden_phrases', 'required_phrases'] as const;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { target: DEFAULT_FIXTURES_DIR, mode: 'replay', verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--record') options.mode = 'record';
+    else if (arg === '--live') options.mode = 'live';
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--baseline') options.baseline = argv[++i];
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.target = arg;
+  }
+
+  return options;
+}
+
+// O backend loga bastante; fora do --verbose os logs de cada fixture são descartados
+async function quietly<T>(verbose: boolean, fn: () => Promise<T>): Promise<T> {
+  if (verbose) return fn();
+
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    Object.assign(console, original);
+  }
+}
+
+// =============================================================================
+// EXECUÇÃO
+// =============================================================================
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.mode !== 'replay' && !process.env.ANTHROPIC_API_KEY) {
+    throw new Error(`ANTHROPIC_API_KEY is required for --${options.mode}`);
+  }
+
+  // env.ts exige as variáveis do Supabase; nada aqui fala com o Supabase de verdade
+  process.env.SUPABASE_URL ||= 'http://localhost:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'eval';
+  process.env.VOYAGE_API_KEY ||= 'eval-stub';
+
+  const { installVoyageStub, installAnthropicStub, registerKnowledgeSearch } = await import('./providers.js');
+
+  // Stubs antes do shim web da Anthropic: o SDK usa o fetch que existir quando o shim é importado
+  const restoreVoyage = installVoyageStub();
+  const anthropicStub = installAnthropicStub(options.mode);
+  await import('@anthropic-ai/sdk/shims/web');
+
+  // Imports dinâmicos: os módulos do backend leem o env ao carregar
+  const { env } = await import('../config/env.js');
+  const { getRelevantContext } = await import('../services/rag.js');
+  const { processAIMessage } = await import('../services/ai-agent.js');
+  const { MemoryDatabase } = await import('./memory-db.js');
+  const { loadFixtures, saveRecordedResponses, seedFixture } = await import('./fixtures.js');
+  const { scoreTurn, loadBaseline, findRegressions, printReport } = await import('./report.js');
+
+  async function runFixture(loaded: LoadedFixture): Promise<FixtureReport> {
+    const { fixture } = loaded;
+    const db = new MemoryDatabase();
+    const restoreDb = db.install(env.SUPABASE_URL);
+
+    const ids = seedFixture(db, fixture, { apiKey: options.mode === 'replay' ? REPLAY_API_KEY : undefined });
+    registerKnowledgeSearch(db, fixture.knowledge || []);
+
+    const recorded = anthropicStub.load(fixture.recorded?.anthropic || []);
+
+    const observed: TurnObservation = { detectedProducts: [], chunks: [] };
+
+    try {
+      // 1. RAG (mesmo histórico que o agente vê)
+      const history = (fixture.history || []).filter(m => m.direction !== 'internal');
+      const contexts = await quietly(options.verbose, () =>
+        getRelevantContext(fixture.message, ids.organizationId, history)
+      );
+
+      const products = fixture.products || [];
+      observed.detectedProducts = db.rpcCalls
+        .filter(call => call.name === 'search_knowledge_product')
+        .map(call => {
+          const product = products.find(p => p.id === call.args.p_product_id);
+          return product?.slug || call.args.p_product_id;
+        });
+      observed.chunks = contexts.map(c => ({ id: c.id, title: c.title }));
+
+      // 2. Agente (dry run: nada é enviado pelo WhatsApp)
+      if (AGENT_EXPECTATIONS.some(key => fixture.expect[key])) {
+        const result = await quietly(options.verbose, () =>
+          processAIMessage({
+            threadId: ids.threadId,
+            organizationId: ids.organizationId,
+            agentId: ids.agentId,
+            contactId: ids.contactId,
+            message: fixture.message,
+            pendingMessageIds: [ids.currentMessageId],
+            dryRun: true,
+          })
+        );
+
+        observed.toolsExecuted = result.toolsExecuted;
+        observed.response = result.response;
+        if (!result.success) {
+          observed.error = `processAIMessage did not complete (${'reason' in result ? result.reason : 'unknown'})`;
+        }
+      }
+
+      if (options.mode === 'record' && recorded.length > 0) {
+        await saveRecordedResponses(loaded, recorded);
+      }
+    } catch (error) {
+      observed.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      restoreDb();
+    }
+
+    return {
+      name: fixture.name,
+      file: loaded.file,
+      checks: scoreTurn(fixture.expect, observed),
+      response: observed.response,
+      error: observed.error,
+    };
+  }
+
+  try {
+    const fixtures = await loadFixtures(options.target);
+    const report: EvalReport = { generated_at: new Date().toISOString(), mode: options.mode, fixtures: [] };
+
+    for (const loaded of fixtures) {
+      report.fixtures.push(await runFixture(loaded));
+    }
+
+    const regressions = options.baseline
+      ? findRegressions(report, await loadBaseline(options.baseline))
+      : null;
+
+    printReport(report, regressions);
+
+    if (options.out) {
+      const { writeFile } = await import('node:fs/promises');
+      await writeFile(options.out, `${JSON.stringify(report, null, 2)}\n`);
+      console.log(`💾 Report saved to ${options.out}`);
+    }
+
+    if (options.mode === 'record') {
+      console.log('🎙️ Recorded Anthropic responses written back to the fixtures');
+    }
+
+    // Com baseline, só regressões falham o processo (permite fixtures conhecidas como quebradas)
+    const failed = regressions
+      ? regressions.length > 0
+      : report.fixtures.some(f => f.checks.some(c => !c.passed));
+    process.exitCode = failed ? 1 : 0;
+  } finally {
+    anthropicStub.restore();
+    restoreVoyage();
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Eval failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    // Clientes do backend (Inngest, timers) podem manter o event loop vivo
+    setTimeout(() => process.exit(), 100).unref();
+  });
@@ -6,7 +6,18 @@ import { env } from './config/env.js';
 import { inngest } from './lib/inngest.js';
 import { twilioWebhookRoutes } from './webhooks/twilio.js';
 import { whatsappTemplateRoutes } from './routes/whatsapp-templates.js';
+import { whatsappMessageRoutes } from './routes/whatsapp-messages.js';
+import { threadRoutes } from './routes/threads.js';
+import { schedulingRoutes } from './routes/scheduling.js';
+import { usageRoutes } from './routes/usage.js';
+import { traceRoutes } from './routes/traces.js';
 import { processMessageBatch } from './inngest/functions/process-message-batch.js';
+import { rehostMessageMedia } from './inngest/functions/rehost-message-media.js';
+import { sendWhatsAppMessageQueued } from './inngest/functions/send-whatsapp-message.js';
+import { processFollowup } from './inngest/functions/process-followup.js';
+import { handoffAutoReturn } from './inngest/functions/handoff-auto-return.js';
+import { meetingReminder } from './inngest/functions/send-meeting-reminder.js';
+import { typingPresenceSweeper } from './inngest/functions/typing-presence-sweeper.js';
 
 // Criar servidor Fastify
 const app = Fastify({
@@ -50,6 +61,21 @@ await twilioWebhookRoutes(app);
 // WhatsApp Templates API
 await whatsappTemplateRoutes(app);
 
+// WhatsApp outbound queue API
+await whatsappMessageRoutes(app);
+
+// Threads API (handoff AI ↔ humano)
+await threadRoutes(app);
+
+// Scheduling API (disponibilidade e reuniões)
+await schedulingRoutes(app);
+
+// Usage API (consumo de AI e orçamento)
+await usageRoutes(app);
+
+// Traces API (debug dos turnos da AI)
+await traceRoutes(app);
+
 // ===========================
 // INNGEST
 // ===========================
@@ -62,6 +88,12 @@ app.route({
     client: inngest,
     functions: [
       processMessageBatch,
+      rehostMessageMedia,
+      sendWhatsAppMessageQueued,
+      processFollowup,
+      handoffAutoReturn,
+      meetingReminder,
+      typingPresenceSweeper,
       // Adicionar mais funções aqui conforme necessário
     ],
   }),
@@ -95,6 +127,13 @@ const start = async () => {
 ║   API:                                                    ║
 ║   - Templates: /api/whatsapp/templates                    ║
 ║   - Send: POST /api/whatsapp/send                         ║
+║   - Queue: POST /api/whatsapp/messages                    ║
+║   - Handoff: /api/threads/:id/handoff                     ║
+║   - Agent: PUT /api/threads/:id/agent                     ║
+║   - Presence: /api/threads/:id/presence                   ║
+║   - Scheduling: /api/scheduling/slots                     ║
+║   - Usage: GET /api/usage                                 ║
+║   - Traces: /api/traces/:id                               ║
 ║                                                           ║
 ╚═══════════════════════════════════════════════════════════╝
     `);
@@ -0,0 +1,23 @@
+import { inngest } from '../../lib/inngest.js';
+import { autoReturnStaleHandoffs } from '../../services/handoff.js';
+
+/**
+ * Devolve para a AI threads em handoff sem atividade humana
+ *
+ * Roda a cada 15 minutos; o timeout é HANDOFF_AUTO_RETURN_HOURS
+ * (contado a partir da última transição ou mensagem do atendente).
+ */
+export const handoffAutoReturn = inngest.createFunction(
+  {
+    id: 'handoff-auto-return',
+    retries: 1,
+  },
+  { cron: '*/15 * * * *' },
+  async ({ step }) => {
+    const returned = await step.run('return-stale-handoffs', async () => {
+      return autoReturnStaleHandoffs();
+    });
+
+    return { returned };
+  }
+);
@@ -0,0 +1,180 @@
+import { randomUUID } from 'node:crypto';
+import { inngest } from '../../lib/inngest.js';
+import { supabase } from '../../lib/supabase.js';
+import { processAIMessage } from '../../services/ai-agent.js';
+import { getSessionWindowState, reopenSessionWindow } from '../../services/whatsapp.js';
+import { isAIPaused } from '../../services/handoff.js';
+
+const DEFAULT_MAX_ATTEMPTS = 1;
+
+/**
+ * created_at da mensagem mais recente da thread (relógio do banco)
+ * Usado como scheduledAt: o follow-up é descartado se surgir mensagem mais nova
+ */
+export async function getLatestMessageAt(threadId: string, organizationId: string): Promise<string> {
+  const { data } = await supabase
+    .from('messages')
+    .select('created_at')
+    .eq('thread_id', threadId)
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.created_at || new Date().toISOString();
+}
+
+/**
+ * Follow-up automático quando o contato para de responder
+ *
+ * Agendado pelo process-message-batch após cada resposta da AI:
+ * 1. Espera delayHours (cancelado se o contato responder)
+ * 2. Descarta se houve outra mensagem na thread desde o agendamento
+ * 3. Dentro da janela de 24h: gera follow-up contextual com o agente
+ * 4. Fora da janela: envia o template de fallback da org (session_fallback_template_id)
+ * 5. Agenda a próxima tentativa até followup_max_attempts
+ */
+export const processFollowup = inngest.createFunction(
+  {
+    id: 'process-followup',
+    cancelOn: [
+      {
+        event: 'whatsapp/message.received',
+        match: 'data.threadId',
+      },
+    ],
+    retries: 2,
+  },
+  { event: 'ai/process.followup' },
+  async ({ event, step }) => {
+    const { threadId, organizationId, delayHours, agentId } = event.data;
+    const attempt: number = event.data.attempt || 1;
+    const scheduledAt: string = event.data.scheduledAt || new Date(event.ts ?? Date.now()).toISOString();
+
+    console.log(`⏰ Follow-up #${attempt} scheduled for thread ${threadId} in ${delayHours}h`);
+
+    // 1. Esperar (cancelado automaticamente se o contato responder)
+    await step.sleep('wait-for-reply', `${delayHours}h`);
+
+    // 2. Verificar se o follow-up ainda faz sentido
+    const context = await step.run('check-thread', async () => {
+      const { data: thread } = await supabase
+        .from('message_threads')
+        .select('id, contact_id, handoff_status, whatsapp_last_inbound_at')
+        .eq('id', threadId)
+        .eq('organization_id', organizationId)
+        .single();
+
+      if (!thread) {
+        return { skip: 'thread_not_found' as const };
+      }
+
+      // Humano é dono da thread (ou conversa encerrada): a AI não puxa assunto
+      if (isAIPaused(thread.handoff_status)) {
+        return { skip: 'human_owned' as const };
+      }
+
+      if (thread.handoff_status === 'resolved') {
+        return { skip: 'resolved' as const };
+      }
+
+      // Qualquer mensagem depois do agendamento (resposta do cliente, humano ou outro follow-up)
+      const { data: newerMessages } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('thread_id', threadId)
+        .eq('organization_id', organizationId)
+        .gt('created_at', scheduledAt)
+        .is('deleted_at', null)
+        .limit(1);
+
+      if (newerMessages && newerMessages.length > 0) {
+        return { skip: 'newer_messages' as const };
+      }
+
+      let agentQuery = supabase
+        .from('ai_agents')
+        .select('id, is_enabled, followup_delay_hours, followup_max_attempts')
+        .eq('organization_id', organizationId);
+
+      agentQuery = agentId
+        ? agentQuery.eq('id', agentId)
+        : agentQuery.eq('is_enabled', true);
+
+      const { data: agent } = await agentQuery.limit(1).single();
+
+      if (!agent || !agent.is_enabled) {
+        return { skip: 'no_agent' as const };
+      }
+
+      return {
+        skip: null,
+        contactId: thread.contact_id as string,
+        lastInboundAt: thread.whatsapp_last_inbound_at as string | null,
+        agent,
+      };
+    });
+
+    if (context.skip !== null) {
+      console.log(`⏭️ Follow-up skipped for thread ${threadId}: ${context.skip}`);
+      return { sent: false, reason: context.skip };
+    }
+
+    const { agent } = context;
+
+    // 3. Enviar follow-up (id do turno em step próprio: um retry retoma as partes já gravadas)
+    const turnId = await step.run('create-turn-id', () => randomUUID());
+
+    const sent = await step.run('send-followup', async () => {
+      const sessionWindow = await getSessionWindowState(threadId, organizationId);
+
+      if (sessionWindow.open) {
+        const hoursSilent = context.lastInboundAt
+          ? (Date.now() - new Date(context.lastInboundAt).getTime()) / 3_600_000
+          : delayHours;
+
+        const result = await processAIMessage({
+          threadId,
+          organizationId,
+          agentId: agent.id,
+          contactId: context.contactId,
+          message: '',
+          followUp: { hoursSilent, attempt },
+          turnId,
+        });
+        return { mode: 'ai' as const, success: result.success };
+      }
+
+      // Fora da janela de 24h: só o template de fallback da org
+      const result = await reopenSessionWindow(threadId, organizationId, sessionWindow);
+      return result
+        ? { mode: 'template' as const, success: true }
+        : { mode: 'none' as const, success: false };
+    });
+
+    console.log(`📨 Follow-up #${attempt} for thread ${threadId}: ${sent.mode} (success: ${sent.success})`);
+
+    // 4. Agendar próxima tentativa
+    const maxAttempts = agent.followup_max_attempts || DEFAULT_MAX_ATTEMPTS;
+    if (sent.success && attempt < maxAttempts && agent.followup_delay_hours) {
+      const nextScheduledAt = await step.run('get-latest-message-at', () =>
+        getLatestMessageAt(threadId, organizationId)
+      );
+
+      await step.sendEvent('schedule-next-followup', {
+        name: 'ai/process.followup',
+        data: {
+          threadId,
+          organizationId,
+          agentId: agent.id,
+          delayHours: agent.followup_delay_hours,
+          scheduledAt: nextScheduledAt,
+          attempt: attempt + 1,
+        },
+      });
+    }
+
+    return { sent: sent.success, mode: sent.mode, attempt };
+  }
+);
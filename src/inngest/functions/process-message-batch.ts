@@ -1,7 +1,42 @@
+import { randomUUID } from 'node:crypto';
 import { inngest } from '../../lib/inngest.js';
-import { supabase, type QuickReplyButton } from '../../lib/supabase.js';
+import { supabase, type QuickReplyButton, type MediaAttachment, type MediaKind } from '../../lib/supabase.js';
 import { showTypingIndicator } from '../../services/whatsapp.js';
 import { processAIMessage } from '../../services/ai-agent.js';
+import { getMessageAttachments } from '../../services/media-storage.js';
+import { transcribeMessageAudio, TRANSCRIPTION_LABEL } from '../../services/transcription.js';
+import { isAIPaused, transitionHandoff } from '../../services/handoff.js';
+import { resolveThreadAgent } from '../../services/agent-routing.js';
+import { resolveSelectedOption, describeSelectedOption } from '../../services/button-replies.js';
+import { getLatestMessageAt } from './process-followup.js';
+
+const MEDIA_LABELS: Record<MediaKind, [string, string]> = {
+  image: ['imagem', 'imagens'],
+  video: ['vídeo', 'vídeos'],
+  audio: ['áudio', 'áudios'],
+  document: ['documento', 'documentos'],
+};
+
+/**
+ * Descreve anexos em texto para o agente (ex: "[Cliente enviou 3 imagens e 1 documento]")
+ */
+function describeAttachments(attachments: MediaAttachment[]): string {
+  const counts = new Map<MediaKind, number>();
+  for (const attachment of attachments) {
+    counts.set(attachment.media_type, (counts.get(attachment.media_type) || 0) + 1);
+  }
+
+  const parts = [...counts.entries()].map(([kind, count]) => {
+    const [singular, plural] = MEDIA_LABELS[kind] || MEDIA_LABELS.document;
+    return `${count} ${count === 1 ? singular : plural}`;
+  });
+
+  const list = parts.length > 1
+    ? `${parts.slice(0, -1).join(', ')} e ${parts[parts.length - 1]}`
+    : parts[0];
+
+  return `[Cliente enviou ${list}]`;
+}
 
 /**
  * Processa batch de mensagens com debounce de 5 segundos
@@ -31,7 +66,7 @@ export const processMessageBatch = inngest.createFunction(
     const thread = await step.run('validate-thread', async () => {
       const { data, error } = await supabase
         .from('message_threads')
-        .select('id, organization_id, contact_id, awaiting_button_response, button_options')
+        .select('id, organization_id, contact_id, awaiting_button_response, button_options, handoff_status')
         .eq('id', threadId)
         .eq('organization_id', organizationId)
         .single();
@@ -42,6 +77,29 @@ export const processMessageBatch = inngest.createFunction(
       return data;
     });
 
+    // 1.1 Handoff: enquanto um humano é dono da thread, a AI não responde
+    if (isAIPaused(thread.handoff_status)) {
+      await step.run('skip-human-owned', async () => {
+        await supabase
+          .from('messages')
+          .update({ ai_processed: true })
+          .eq('organization_id', organizationId)
+          .eq('thread_id', threadId)
+          .eq('direction', 'inbound')
+          .eq('ai_processed', false);
+      });
+
+      console.log(`🙋 Thread ${threadId} is ${thread.handoff_status}, AI paused`);
+      return { processed: 0, reason: 'human_handoff' };
+    }
+
+    // Thread resolvida: nova mensagem do cliente reabre com a AI
+    if (thread.handoff_status === 'resolved') {
+      await step.run('reopen-thread', async () => {
+        await transitionHandoff(threadId, organizationId, 'ai_active', { reason: 'new_inbound_message' });
+      });
+    }
+
     // 2. Mostrar typing indicator
     await step.run('show-typing', async () => {
       await showTypingIndicator(threadId, organizationId);
@@ -51,7 +109,7 @@ export const processMessageBatch = inngest.createFunction(
     const messages = await step.run('fetch-messages', async () => {
       const { data } = await supabase
         .from('messages')
-        .select('id, content, media_type, media_urls')
+        .select('id, content, media_type, media_urls, media_attachments, transcription, selected_option_id, metadata')
         .eq('organization_id', organizationId)
         .eq('thread_id', threadId)
         .eq('direction', 'inbound')
@@ -73,22 +131,65 @@ export const processMessageBatch = inngest.createFunction(
 
     console.log(`📨 Found ${messages.length} pending messages`);
 
-    // 4. Processar resposta de botão (se aplicável)
+    // 3.1 Transcrever áudios (voice notes) ainda sem transcrição
+    const transcriptions = await step.run('transcribe-audio', async () => {
+      const result: Record<string, string> = {};
+      for (const msg of messages) {
+        if (msg.transcription) {
+          result[msg.id] = msg.transcription;
+          continue;
+        }
+
+        const attachments = getMessageAttachments(msg);
+        if (!attachments.some(a => a.media_type === 'audio')) continue;
+
+        try {
+          const text = await transcribeMessageAudio({ id: msg.id, attachments }, organizationId);
+          if (text) result[msg.id] = text;
+        } catch (error) {
+          // Sem transcrição o agente ainda recebe "[Cliente enviou 1 áudio]"
+          console.error(`❌ Error transcribing audio for message ${msg.id}:`, error);
+        }
+      }
+      return result;
+    });
+
+    // 4. Processar resposta de botão (se aplicável) e anexos
     let combinedMessage = '';
+    const attachments: MediaAttachment[] = [];
     for (const msg of messages) {
       let content = msg.content || '';
 
-      // Verificar se é resposta numérica de botão
-      if (thread.awaiting_button_response && thread.button_options) {
-        const optionNumber = parseInt(content.trim());
-        const buttons = thread.button_options as QuickReplyButton[];
+      // Resposta a botão/lista: payload do toque, número ou título digitado
+      if (msg.selected_option_id || thread.awaiting_button_response) {
+        const selected = resolveSelectedOption(msg, thread.button_options as QuickReplyButton[] | null);
 
-        if (optionNumber >= 1 && optionNumber <= buttons.length) {
-          content = buttons[optionNumber - 1].title;
-          console.log(`🔘 Button response: "${msg.content}" → "${content}"`);
+        if (selected) {
+          // Título digitado: mantém o texto original (pode ter mais contexto)
+          content = selected.source === 'title'
+            ? `${describeSelectedOption(selected)}\n${content}`
+            : describeSelectedOption(selected);
+          console.log(`🔘 Button response (${selected.source}): "${msg.content}" → ${selected.id}`);
         }
       }
 
+      const msgAttachments = getMessageAttachments(msg);
+      const transcription = transcriptions[msg.id];
+      if (msgAttachments.length > 0) {
+        attachments.push(...msgAttachments);
+
+        // Áudios transcritos entram como texto; demais anexos como descrição
+        const describable = transcription
+          ? msgAttachments.filter(a => a.media_type !== 'audio')
+          : msgAttachments;
+        const parts = [
+          describable.length > 0 ? describeAttachments(describable) : '',
+          transcription ? `${TRANSCRIPTION_LABEL}: ${transcription}` : '',
+          content,
+        ].filter(Boolean);
+        content = parts.join('\n');
+      }
+
       if (content) {
         combinedMessage += (combinedMessage ? '\n' : '') + content;
       }
@@ -106,16 +207,10 @@ export const processMessageBatch = inngest.createFunction(
         .eq('organization_id', organizationId);
     });
 
-    // 6. Buscar agente ativo
+    // 6. Resolver agente da thread (atribuído ou pelas regras de roteamento)
     const agent = await step.run('find-agent', async () => {
-      const { data } = await supabase
-        .from('ai_agents')
-        .select('id')
-        .eq('organization_id', organizationId)
-        .eq('is_enabled', true)
-        .limit(1)
-        .single();
-      return data;
+      const resolved = await resolveThreadAgent(threadId, organizationId, { message: combinedMessage });
+      return resolved?.agent || null;
     });
 
     if (!agent) {
@@ -128,16 +223,21 @@ export const processMessageBatch = inngest.createFunction(
       return { processed: 0, reason: 'no_agent' };
     }
 
-    // 7. Processar com AI
-    await step.run('process-ai', async () => {
-      await processAIMessage({
+    // 7. Processar com AI (id do turno em step próprio: um retry retoma as partes já gravadas)
+    const turnId = await step.run('create-turn-id', () => randomUUID());
+
+    const aiResult = await step.run('process-ai', async () => {
+      return processAIMessage({
         threadId,
         organizationId,
         agentId: agent.id,
         contactId,
         message: combinedMessage,
+        attachments,
         isBatched: messages.length > 1,
         messageCount: messages.length,
+        pendingMessageIds: messages.map(m => m.id),
+        turnId,
       });
     });
 
@@ -151,6 +251,26 @@ export const processMessageBatch = inngest.createFunction(
         .in('id', messageIds);
     });
 
+    // 9. Agendar follow-up (cancelado se o contato responder)
+    const transferred = aiResult.toolsExecuted.includes('transfer_to_human');
+    if (aiResult.success && !transferred && agent.followup_delay_hours) {
+      const scheduledAt = await step.run('get-latest-message-at', () =>
+        getLatestMessageAt(threadId, organizationId)
+      );
+
+      await step.sendEvent('schedule-followup', {
+        name: 'ai/process.followup',
+        data: {
+          threadId,
+          organizationId,
+          agentId: agent.id,
+          delayHours: agent.followup_delay_hours,
+          scheduledAt,
+          attempt: 1,
+        },
+      });
+    }
+
     console.log(`✅ Batch processed: ${messages.length} messages`);
 
     return { processed: messages.length };
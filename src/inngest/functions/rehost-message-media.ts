@@ -0,0 +1,82 @@
+import { inngest } from '../../lib/inngest.js';
+import { supabase, type MediaAttachment } from '../../lib/supabase.js';
+import { getTwilioWebhookConfig } from '../../lib/twilio-signature.js';
+import { getMessageAttachments, rehostAttachment } from '../../services/media-storage.js';
+
+/**
+ * Re-hospeda mídias recebidas no Supabase Storage
+ *
+ * Roda em paralelo ao process-message-batch para cada mensagem recebida:
+ * 1. Carrega os anexos da mensagem (MULTI-TENANT)
+ * 2. Baixa cada anexo do Twilio com as credenciais da org (um step por anexo)
+ * 3. Salva no bucket privado da organização
+ * 4. Reescreve media_urls/media_attachments com URLs duráveis + tamanho/mime
+ */
+export const rehostMessageMedia = inngest.createFunction(
+  {
+    id: 'rehost-message-media',
+    concurrency: {
+      key: 'event.data.organizationId',
+      limit: 5,
+    },
+    retries: 3,
+  },
+  { event: 'whatsapp/message.received' },
+  async ({ event, step }) => {
+    const { organizationId, messageId } = event.data;
+
+    // 1. Buscar anexos da mensagem
+    const attachments = await step.run('fetch-attachments', async () => {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, media_type, media_urls, media_attachments')
+        .eq('id', messageId)
+        .eq('organization_id', organizationId)
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Message ${messageId} not found for org ${organizationId}`);
+      }
+      return getMessageAttachments(data);
+    });
+
+    if (attachments.length === 0) {
+      return { rehosted: 0 };
+    }
+
+    console.log(`📎 Re-hosting ${attachments.length} attachment(s) for message ${messageId}`);
+
+    // 2. Baixar e salvar cada anexo
+    const rehosted: MediaAttachment[] = [];
+    for (let i = 0; i < attachments.length; i++) {
+      const result = await step.run(`rehost-attachment-${i}`, async () => {
+        const config = await getTwilioWebhookConfig(organizationId);
+        if (!config) {
+          throw new Error(`WhatsApp integration not found for org: ${organizationId}`);
+        }
+        return rehostAttachment(organizationId, messageId, i, attachments[i], config);
+      });
+      rehosted.push(result);
+    }
+
+    // 3. Reescrever URLs na mensagem
+    await step.run('update-message', async () => {
+      const { error } = await supabase
+        .from('messages')
+        .update({
+          media_urls: rehosted.map(a => a.url),
+          media_attachments: rehosted,
+        })
+        .eq('id', messageId)
+        .eq('organization_id', organizationId);
+
+      if (error) {
+        throw new Error(`Failed to update media for message ${messageId}: ${error.message}`);
+      }
+    });
+
+    console.log(`✅ Media re-hosted for message ${messageId}`);
+
+    return { rehosted: rehosted.length };
+  }
+);
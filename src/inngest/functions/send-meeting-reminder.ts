@@ -0,0 +1,36 @@
+import { inngest } from '../../lib/inngest.js';
+import { getReminderAt, sendMeetingReminder } from '../../services/scheduling.js';
+
+/**
+ * Lembrete de reunião agendada pelo agente
+ *
+ * 1. Dorme até MEETING_REMINDER_MINUTES antes do início
+ * 2. Cancelado se a reunião for cancelada (meeting/cancelled)
+ * 3. Envia o lembrete pela fila outbound (fora da janela de 24h usa o template de fallback)
+ */
+export const meetingReminder = inngest.createFunction(
+  {
+    id: 'send-meeting-reminder',
+    retries: 3,
+    cancelOn: [
+      {
+        event: 'meeting/cancelled',
+        match: 'data.meetingId',
+      },
+    ],
+  },
+  { event: 'meeting/booked' },
+  async ({ event, step }) => {
+    const { meetingId, organizationId, startsAt } = event.data;
+
+    const reminderAt = getReminderAt(startsAt);
+    if (reminderAt.getTime() > Date.now()) {
+      await step.sleepUntil('wait-for-reminder', reminderAt);
+    }
+
+    const sent = await step.run('send-reminder', () => sendMeetingReminder(organizationId, meetingId));
+
+    console.log(sent ? `⏰ Meeting reminder sent: ${meetingId}` : `⏭️ Meeting reminder skipped: ${meetingId}`);
+    return { sent };
+  }
+);
@@ -0,0 +1,107 @@
+import { NonRetriableError } from 'inngest';
+import { inngest } from '../../lib/inngest.js';
+import { supabase } from '../../lib/supabase.js';
+import { sendWhatsAppMessage, SessionWindowClosedError } from '../../services/whatsapp.js';
+
+/**
+ * Códigos de erro do Twilio que não adianta tentar novamente
+ * https://www.twilio.com/docs/api/errors
+ */
+const NON_RETRIABLE_TWILIO_CODES = new Set([
+  '21211', // Número de destino inválido
+  '21408', // Permissão para a região não habilitada
+  '21610', // Destinatário fez opt-out (STOP)
+  '63016', // Fora da janela de 24h (precisa de template)
+  '63024', // Destinatário inválido para WhatsApp
+]);
+
+/**
+ * Fila outbound durável para mensagens do WhatsApp
+ *
+ * O CRM e atendentes humanos enfileiram via evento whatsapp/send.message
+ * em vez de chamar o Twilio de forma síncrona:
+ * 1. Limita concorrência/throughput por organização (limites do Twilio)
+ * 2. Envia com retries (reaproveitando a mesma linha em messages)
+ * 3. Em falha definitiva, registra o erro na linha da mensagem
+ */
+export const sendWhatsAppMessageQueued = inngest.createFunction(
+  {
+    id: 'send-whatsapp-message',
+    concurrency: {
+      key: 'event.data.organizationId',
+      limit: 5,
+    },
+    throttle: {
+      key: 'event.data.organizationId',
+      limit: 20,
+      period: '1s',
+    },
+    retries: 4,
+    onFailure: async ({ event, error }) => {
+      const { messageId, organizationId, threadId } = event.data.event.data;
+      console.error(`❌ Outbound message failed permanently for thread ${threadId}:`, error.message);
+
+      if (!messageId) return;
+
+      await supabase
+        .from('messages')
+        .update({
+          whatsapp_status: 'failed',
+          error_message: error.message,
+        })
+        .eq('id', messageId)
+        .eq('organization_id', organizationId);
+    },
+  },
+  { event: 'whatsapp/send.message' },
+  async ({ event, step }) => {
+    const { threadId, organizationId, content, buttons, interactive, messageId, senderUserId } = event.data;
+
+    console.log(`📤 Queued send for thread: ${threadId}`);
+
+    const result = await step.run('send-message', async () => {
+      let sendResult;
+      try {
+        sendResult = await sendWhatsAppMessage({
+          threadId,
+          organizationId,
+          content,
+          buttons,
+          interactive,
+          messageId,
+          senderUserId,
+        });
+      } catch (error) {
+        if (error instanceof SessionWindowClosedError) {
+          if (messageId) {
+            await supabase
+              .from('messages')
+              .update({
+                whatsapp_status: 'failed',
+                error_code: error.code,
+                error_message: error.message,
+              })
+              .eq('id', messageId)
+              .eq('organization_id', organizationId);
+          }
+          throw new NonRetriableError(error.message, { cause: error });
+        }
+        throw error;
+      }
+
+      if (sendResult.status === 'failed') {
+        const message = `Twilio send failed${sendResult.errorCode ? ` (${sendResult.errorCode})` : ''}: ${sendResult.error}`;
+        if (sendResult.errorCode && NON_RETRIABLE_TWILIO_CODES.has(sendResult.errorCode)) {
+          throw new NonRetriableError(message);
+        }
+        throw new Error(message);
+      }
+
+      return sendResult;
+    });
+
+    console.log(`✅ Queued message sent: ${result.messageSid}`);
+
+    return result;
+  }
+);
@@ -0,0 +1,22 @@
+import { inngest } from '../../lib/inngest.js';
+import { sweepStaleTypingIndicators } from '../../services/presence.js';
+
+/**
+ * Limpa "digitando" preso de execuções que morreram entre steps
+ *
+ * Roda a cada minuto; flags mais antigas que TYPING_TTL_SECONDS são desligadas.
+ */
+export const typingPresenceSweeper = inngest.createFunction(
+  {
+    id: 'typing-presence-sweeper',
+    retries: 1,
+  },
+  { cron: '* * * * *' },
+  async ({ step }) => {
+    const cleared = await step.run('sweep-stale-typing', async () => {
+      return sweepStaleTypingIndicators();
+    });
+
+    return { cleared };
+  }
+);
@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidDateOnly } from './dates.js';
+
+describe('isValidDateOnly', () => {
+  it('accepts calendar dates', () => {
+    assert.equal(isValidDateOnly('2024-12-31'), true);
+    assert.equal(isValidDateOnly('2024-02-29'), true);
+  });
+
+  it('rejects dates that Date.parse rolls over', () => {
+    assert.equal(isValidDateOnly('2024-02-31'), false);
+    assert.equal(isValidDateOnly('2023-02-29'), false);
+    assert.equal(isValidDateOnly('2024-04-31'), false);
+  });
+
+  it('rejects other formats and non-strings', () => {
+    assert.equal(isValidDateOnly('2024-13-01'), false);
+    assert.equal(isValidDateOnly('2024-1-01'), false);
+    assert.equal(isValidDateOnly('31/12/2024'), false);
+    assert.equal(isValidDateOnly(20241231), false);
+  });
+});
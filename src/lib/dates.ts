@@ -0,0 +1,22 @@
+// src/lib/dates.ts
+// Validação de datas de calendário recebidas das tools do agente
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Verifica se é uma data YYYY-MM-DD que existe no calendário
+ * (Date.parse aceita 2024-02-31 e rola para março; aqui a data precisa voltar igual)
+ */
+export function isValidDateOnly(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+
+  const match = DATE_ONLY_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCFullYear() === year
+    && date.getUTCMonth() === month - 1
+    && date.getUTCDate() === day;
+}
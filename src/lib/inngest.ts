@@ -1,4 +1,5 @@
 import { Inngest } from 'inngest';
+import type { InteractiveMessage } from '../types/whatsapp-messages.js';
 
 // Tipos dos eventos
 type Events = {
@@ -16,6 +17,9 @@ type Events = {
       organizationId: string;
       content: string;
       buttons?: { id: string; title: string }[];
+      interactive?: InteractiveMessage;
+      messageId?: string; // linha em messages criada ao enfileirar
+      senderUserId?: string; // atendente humano que enfileirou
     };
   };
   'ai/process.followup': {
@@ -23,6 +27,23 @@ type Events = {
       threadId: string;
       organizationId: string;
       delayHours: number;
+      agentId?: string;
+      scheduledAt?: string; // ISO - momento do envio que originou o follow-up
+      attempt?: number; // 1 = primeiro follow-up
+    };
+  };
+  'meeting/booked': {
+    data: {
+      meetingId: string;
+      organizationId: string;
+      threadId: string;
+      startsAt: string; // ISO
+    };
+  };
+  'meeting/cancelled': {
+    data: {
+      meetingId: string;
+      organizationId: string;
     };
   };
 };
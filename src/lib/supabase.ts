@@ -29,6 +29,9 @@ export const supabase = createClient(
 );
 
 // Tipos das tabelas (baseado no schema do Lucas)
+export type HandoffStatus = 'ai_active' | 'human_pending' | 'human_active' | 'resolved';
+export type AgentAssignmentSource = 'manual' | 'rule';
+
 export interface MessageThread {
   id: string;
   organization_id: string;
@@ -38,15 +41,40 @@ export interface MessageThread {
   subject?: string;
   external_id?: string;
   needs_human_attention: boolean;
+  handoff_status?: HandoffStatus;
+  handoff_updated_at?: string;
+  handoff_reason?: string;
+  handoff_user_id?: string;
+  assigned_agent_id?: string | null; // agente AI responsável (roteamento persistido)
+  assigned_agent_at?: string | null;
+  assigned_agent_source?: AgentAssignmentSource | null; // manual = fixo; rule = reavaliado a cada batch
+  whatsapp_business_number?: string; // número da empresa que recebeu a última mensagem
   whatsapp_last_inbound_at?: string;
   agent_typing?: boolean;
   agent_typing_at?: string;
+  history_summary?: string | null; // resumo das mensagens que saíram da janela do histórico
+  history_summarized_until?: string | null; // created_at da última mensagem resumida
+  history_summary_updated_at?: string | null;
   awaiting_button_response?: boolean;
   button_options?: QRButton[];
   created_at: string;
   updated_at: string;
 }
 
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+// Anexo de mídia de uma mensagem (um item por MediaUrlN do Twilio)
+export interface MediaAttachment {
+  url: string;
+  content_type: string;
+  media_type: MediaKind;
+  // Preenchidos após re-hospedar no Supabase Storage
+  original_url?: string;
+  storage_bucket?: string;
+  storage_path?: string;
+  size_bytes?: number;
+}
+
 export interface Message {
   id: string;
   organization_id: string;
@@ -61,8 +89,11 @@ export interface Message {
   reply_to_message_id?: string;
   whatsapp_message_sid?: string;
   whatsapp_status?: string;
-  media_type?: string;
+  media_type?: string; // tipo do primeiro anexo (compatibilidade)
   media_urls?: string[];
+  media_attachments?: MediaAttachment[];
+  transcription?: string; // texto dos áudios (voice notes)
+  selected_option_id?: string; // id do botão/linha de lista tocado pelo cliente
   error_code?: string;
   error_message?: string;
   ai_processed?: boolean;
@@ -81,6 +112,27 @@ export interface Contact {
   last_name?: string;
 }
 
+export interface Opportunity {
+  id: string;
+  organization_id: string;
+  contact_id: string;
+  product_id?: string | null;
+  stage_id?: string | null;
+  title: string;
+  value?: number | null;
+  expected_close_date?: string | null; // YYYY-MM-DD
+  source?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineStage {
+  id: string;
+  organization_id: string;
+  name: string;
+  position: number;
+}
+
 export interface Organization {
   id: string;
   name: string;
@@ -92,10 +144,35 @@ export interface Organization {
   openai_api_key?: string;
 }
 
+// Regras de roteamento de um agente (todas as condições preenchidas precisam bater)
+export interface AgentRoutingRules {
+  whatsapp_numbers?: string[]; // número da empresa que recebeu a mensagem (E.164)
+  opportunity_stage_ids?: string[]; // estágio da oportunidade vinculada à thread
+  product_keywords?: string[]; // palavras-chave de produto na mensagem do cliente
+  business_hours?: {
+    timezone?: string; // padrão: America/Sao_Paulo
+    days?: number[]; // 0 = domingo ... 6 = sábado (padrão: seg-sex)
+    start: string; // HH:MM
+    end: string; // HH:MM
+    match?: 'inside' | 'outside'; // padrão: inside
+  };
+}
+
 export interface AIAgent {
   id: string;
   organization_id: string;
   name: string;
   is_enabled: boolean;
   system_prompt?: string;
+  model?: string | null; // padrão: claude-sonnet-4-20250514
+  max_tokens?: number | null; // padrão: 1024
+  temperature?: number | null; // 0-1 (padrão da API se null)
+  history_limit?: number | null; // mensagens do histórico enviadas ao modelo (padrão: 20)
+  history_token_budget?: number | null; // orçamento de tokens do histórico (padrão: 6000)
+  enabled_tools?: string[] | null; // nomes de tools ou permissões (null = tools padrão)
+  routing_rules?: AgentRoutingRules | null;
+  routing_priority?: number | null; // maior prioridade vence quando várias regras batem
+  is_default?: boolean | null; // fallback quando nenhuma regra bate
+  followup_delay_hours?: number | null; // null/0 = follow-up desabilitado
+  followup_max_attempts?: number | null;
 }
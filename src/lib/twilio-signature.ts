@@ -0,0 +1,103 @@
+// src/lib/twilio-signature.ts
+// Validação da assinatura X-Twilio-Signature dos webhooks do Twilio
+//
+// O Twilio assina cada requisição com HMAC-SHA1 usando o auth_token da conta.
+// A assinatura cobre a URL completa chamada (incluindo query string) + params do form.
+// https://www.twilio.com/docs/usage/webhooks/webhooks-security
+
+import twilio from 'twilio';
+import type { FastifyRequest } from 'fastify';
+import { supabase } from './supabase.js';
+import { env } from '../config/env.js';
+
+export interface TwilioWebhookConfig {
+  account_sid: string;
+  auth_token: string;
+  messaging_service_sid?: string;
+  whatsapp_number: string;
+  // Desabilita a validação de assinatura (apenas desenvolvimento local, ignorado em produção)
+  skip_signature_validation?: boolean;
+}
+
+export interface SignatureCheckResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Busca configuração do Twilio WhatsApp de uma organização
+ */
+export async function getTwilioWebhookConfig(organizationId: string): Promise<TwilioWebhookConfig | null> {
+  const { data: integration, error } = await supabase
+    .from('organization_integrations')
+    .select(`
+      config_values,
+      admin_integrations!inner(slug)
+    `)
+    .eq('organization_id', organizationId)
+    .eq('admin_integrations.slug', 'twilio-whatsapp')
+    .eq('is_enabled', true)
+    .single();
+
+  if (error || !integration) {
+    return null;
+  }
+
+  return integration.config_values as TwilioWebhookConfig;
+}
+
+/**
+ * Reconstrói a URL pública que o Twilio chamou
+ * Usa WEBHOOK_BASE_URL se configurada; senão, os headers do proxy (Railway)
+ */
+export function buildWebhookUrl(request: FastifyRequest): string {
+  if (env.WEBHOOK_BASE_URL) {
+    return `${env.WEBHOOK_BASE_URL.replace(/\/$/, '')}${request.url}`;
+  }
+
+  const forwardedProto = request.headers['x-forwarded-proto'];
+  const forwardedHost = request.headers['x-forwarded-host'];
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0].trim()
+    || request.protocol;
+  const host = (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost)?.split(',')[0].trim()
+    || request.headers.host;
+
+  return `${proto}://${host}${request.url}`;
+}
+
+/**
+ * Valida a assinatura X-Twilio-Signature de uma requisição
+ */
+export function checkTwilioSignature(
+  request: FastifyRequest,
+  config: Pick<TwilioWebhookConfig, 'auth_token' | 'skip_signature_validation'>
+): SignatureCheckResult {
+  if (config.skip_signature_validation) {
+    if (env.NODE_ENV === 'production') {
+      console.warn('⚠️ skip_signature_validation is ignored in production');
+    } else {
+      console.warn('⚠️ Twilio signature validation skipped (skip_signature_validation enabled)');
+      return { valid: true };
+    }
+  }
+
+  if (!config.auth_token) {
+    return { valid: false, reason: 'Twilio auth_token not configured' };
+  }
+
+  const signatureHeader = request.headers['x-twilio-signature'];
+  const signature = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+
+  if (!signature) {
+    return { valid: false, reason: 'Missing X-Twilio-Signature header' };
+  }
+
+  const url = buildWebhookUrl(request);
+  const params = (request.body as Record<string, unknown> | undefined) || {};
+
+  if (!twilio.validateRequest(config.auth_token, signature, url, params)) {
+    return { valid: false, reason: `Invalid signature for ${url}` };
+  }
+
+  return { valid: true };
+}
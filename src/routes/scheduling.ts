@@ -0,0 +1,172 @@
+// src/routes/scheduling.ts
+// Rotas da agenda de disponibilidade e reuniões
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { supabase } from '../lib/supabase.js';
+import { listFreeSlots, cancelMeeting } from '../services/scheduling.js';
+
+// ===========================
+// TYPES
+// ===========================
+
+interface SlotsQuery {
+  orgId?: string;
+  userId?: string;
+  daysAhead?: string;
+}
+
+interface IdParams {
+  id: string;
+}
+
+interface CreateSlotsBody {
+  organization_id: string;
+  user_id: string;
+  slots: Array<{ starts_at: string; ends_at: string }>;
+}
+
+interface OrgBody {
+  organization_id: string;
+}
+
+// ===========================
+// ROUTES
+// ===========================
+
+export async function schedulingRoutes(app: FastifyInstance) {
+
+  // ===========================
+  // GET /api/scheduling/slots
+  // Próximos horários livres (da organização ou de um usuário)
+  // ===========================
+  app.get('/api/scheduling/slots', async (
+    request: FastifyRequest<{ Querystring: SlotsQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { orgId, userId, daysAhead } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    try {
+      const slots = await listFreeSlots(orgId, {
+        userId,
+        daysAhead: daysAhead ? parseInt(daysAhead) : undefined,
+        limit: 100,
+      });
+      return reply.send({ slots });
+    } catch (error: any) {
+      console.error('❌ Error listing slots:', error);
+      return reply.status(500).send({ error: error.message });
+    }
+  });
+
+  // ===========================
+  // POST /api/scheduling/slots
+  // Publica horários livres de um usuário
+  // ===========================
+  app.post('/api/scheduling/slots', async (
+    request: FastifyRequest<{ Body: CreateSlotsBody }>,
+    reply: FastifyReply
+  ) => {
+    const body = request.body;
+
+    if (!body.organization_id || !body.user_id) {
+      return reply.status(400).send({ error: 'Missing organization_id or user_id' });
+    }
+
+    if (!Array.isArray(body.slots) || body.slots.length === 0) {
+      return reply.status(400).send({ error: 'Missing slots' });
+    }
+
+    const invalid = body.slots.filter(s =>
+      Number.isNaN(Date.parse(s.starts_at)) ||
+      Number.isNaN(Date.parse(s.ends_at)) ||
+      Date.parse(s.ends_at) <= Date.parse(s.starts_at)
+    );
+    if (invalid.length > 0) {
+      return reply.status(400).send({ error: 'Invalid slots (starts_at/ends_at)', invalid });
+    }
+
+    const { data, error } = await supabase
+      .from('availability_slots')
+      .insert(body.slots.map(s => ({
+        organization_id: body.organization_id,
+        user_id: body.user_id,
+        starts_at: s.starts_at,
+        ends_at: s.ends_at,
+        status: 'open',
+      })))
+      .select('id, starts_at, ends_at, status');
+
+    if (error) {
+      console.error('❌ Error creating slots:', error);
+      // Exclusion constraint: horários sobrepostos para o mesmo usuário
+      if (error.code === '23P01') {
+        return reply.status(409).send({ error: 'Slots overlap existing availability' });
+      }
+      return reply.status(500).send({ error: error.message });
+    }
+
+    return reply.status(201).send({ slots: data });
+  });
+
+  // ===========================
+  // DELETE /api/scheduling/slots/:id
+  // Bloqueia um horário livre (horários reservados não podem ser removidos)
+  // ===========================
+  app.delete('/api/scheduling/slots/:id', async (
+    request: FastifyRequest<{ Params: IdParams; Querystring: SlotsQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const { data } = await supabase
+      .from('availability_slots')
+      .update({ status: 'blocked' })
+      .eq('id', id)
+      .eq('organization_id', orgId)
+      .eq('status', 'open')
+      .select('id')
+      .single();
+
+    if (!data) {
+      return reply.status(409).send({ error: 'Slot not found or already booked' });
+    }
+
+    return reply.send({ success: true });
+  });
+
+  // ===========================
+  // POST /api/meetings/:id/cancel
+  // Cancela a reunião, libera o horário e o lembrete
+  // ===========================
+  app.post('/api/meetings/:id/cancel', async (
+    request: FastifyRequest<{ Params: IdParams; Body: OrgBody }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (!body.organization_id) {
+      return reply.status(400).send({ error: 'Missing organization_id' });
+    }
+
+    try {
+      await cancelMeeting(body.organization_id, id);
+      return reply.send({ success: true });
+    } catch (error: any) {
+      console.error('❌ Error cancelling meeting:', error);
+      if (error.message === 'Meeting not found') {
+        return reply.status(404).send({ error: error.message });
+      }
+      return reply.status(500).send({ error: error.message });
+    }
+  });
+}
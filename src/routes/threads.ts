@@ -0,0 +1,281 @@
+// src/routes/threads.ts
+// Rotas de handoff AI ↔ humano, atribuição de agente e presença ("digitando") das threads
+
+import type { OutgoingHttpHeaders } from 'node:http';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { supabase } from '../lib/supabase.js';
+import { transitionHandoff, InvalidHandoffTransitionError } from '../services/handoff.js';
+import { assignThreadAgent } from '../services/agent-routing.js';
+import { getTypingPresence } from '../services/presence.js';
+
+// Intervalo de checagem do stream de presença
+const PRESENCE_STREAM_INTERVAL_MS = 2000;
+
+// ===========================
+// TYPES
+// ===========================
+
+interface OrgIdQuery {
+  orgId?: string;
+}
+
+interface ThreadIdParams {
+  id: string;
+}
+
+interface HandoffBody {
+  organization_id: string;
+  user_id?: string;
+  reason?: string;
+}
+
+interface AssignAgentBody {
+  organization_id: string;
+  agent_id: string | null;
+}
+
+// ===========================
+// HELPERS
+// ===========================
+
+function sendHandoffError(reply: FastifyReply, error: any) {
+  if (error instanceof InvalidHandoffTransitionError) {
+    return reply.status(409).send({ error: error.message, from: error.from, to: error.to });
+  }
+
+  if (error.message === 'Thread not found') {
+    return reply.status(404).send({ error: error.message });
+  }
+
+  return reply.status(500).send({ error: error.message });
+}
+
+// ===========================
+// ROUTES
+// ===========================
+
+export async function threadRoutes(app: FastifyInstance) {
+
+  // ===========================
+  // GET /api/threads/:id/handoff
+  // Estado atual do handoff da thread
+  // ===========================
+  app.get('/api/threads/:id/handoff', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Querystring: OrgIdQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const { data: thread, error } = await supabase
+      .from('message_threads')
+      .select('id, handoff_status, handoff_updated_at, handoff_reason, handoff_user_id, needs_human_attention')
+      .eq('id', id)
+      .eq('organization_id', orgId)
+      .single();
+
+    if (error || !thread) {
+      return reply.status(404).send({ error: 'Thread not found' });
+    }
+
+    return reply.send({ ...thread, handoff_status: thread.handoff_status || 'ai_active' });
+  });
+
+  // ===========================
+  // POST /api/threads/:id/handoff/assume
+  // Atendente humano assume a thread (AI pausada)
+  // ===========================
+  app.post('/api/threads/:id/handoff/assume', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Body: HandoffBody }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (!body.organization_id) {
+      return reply.status(400).send({ error: 'Missing organization_id' });
+    }
+
+    try {
+      const result = await transitionHandoff(id, body.organization_id, 'human_active', {
+        userId: body.user_id,
+        reason: body.reason,
+      });
+      return reply.send(result);
+    } catch (error: any) {
+      console.error('❌ Error assuming thread:', error);
+      return sendHandoffError(reply, error);
+    }
+  });
+
+  // ===========================
+  // POST /api/threads/:id/handoff/return-to-ai
+  // Devolve a thread para a AI
+  // ===========================
+  app.post('/api/threads/:id/handoff/return-to-ai', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Body: HandoffBody }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (!body.organization_id) {
+      return reply.status(400).send({ error: 'Missing organization_id' });
+    }
+
+    try {
+      const result = await transitionHandoff(id, body.organization_id, 'ai_active', {
+        reason: body.reason,
+      });
+      return reply.send(result);
+    } catch (error: any) {
+      console.error('❌ Error returning thread to AI:', error);
+      return sendHandoffError(reply, error);
+    }
+  });
+
+  // ===========================
+  // POST /api/threads/:id/handoff/resolve
+  // Marca a thread como resolvida
+  // ===========================
+  app.post('/api/threads/:id/handoff/resolve', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Body: HandoffBody }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (!body.organization_id) {
+      return reply.status(400).send({ error: 'Missing organization_id' });
+    }
+
+    try {
+      const result = await transitionHandoff(id, body.organization_id, 'resolved', {
+        reason: body.reason,
+      });
+      return reply.send(result);
+    } catch (error: any) {
+      console.error('❌ Error resolving thread:', error);
+      return sendHandoffError(reply, error);
+    }
+  });
+
+  // ===========================
+  // PUT /api/threads/:id/agent
+  // Reatribui a thread a outro agente AI (agent_id null = rotear de novo)
+  // ===========================
+  app.put('/api/threads/:id/agent', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Body: AssignAgentBody }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (!body.organization_id) {
+      return reply.status(400).send({ error: 'Missing organization_id' });
+    }
+
+    if (body.agent_id === undefined) {
+      return reply.status(400).send({ error: 'Missing agent_id' });
+    }
+
+    try {
+      await assignThreadAgent(id, body.organization_id, body.agent_id);
+      return reply.send({ thread_id: id, assigned_agent_id: body.agent_id });
+    } catch (error: any) {
+      console.error('❌ Error assigning agent:', error);
+
+      if (error.message === 'Thread not found' || error.message === 'Agent not found') {
+        return reply.status(404).send({ error: error.message });
+      }
+      if (error.message === 'Agent is disabled') {
+        return reply.status(409).send({ error: error.message });
+      }
+      return reply.status(500).send({ error: error.message });
+    }
+  });
+
+  // ===========================
+  // GET /api/threads/:id/presence
+  // "Digitando" do agente com TTL aplicado (flag expirada = false)
+  // ===========================
+  app.get('/api/threads/:id/presence', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Querystring: OrgIdQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const presence = await getTypingPresence(id, orgId);
+    if (!presence) {
+      return reply.status(404).send({ error: 'Thread not found' });
+    }
+
+    return reply.send(presence);
+  });
+
+  // ===========================
+  // GET /api/threads/:id/presence/stream
+  // Server-Sent Events: envia a presença sempre que mudar
+  // ===========================
+  app.get('/api/threads/:id/presence/stream', async (
+    request: FastifyRequest<{ Params: ThreadIdParams; Querystring: OrgIdQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const initial = await getTypingPresence(id, orgId);
+    if (!initial) {
+      return reply.status(404).send({ error: 'Thread not found' });
+    }
+
+    // hijack ignora os headers já definidos no reply (CORS do @fastify/cors): repassa manualmente
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    let last = JSON.stringify(initial);
+    reply.raw.write(`event: presence\ndata: ${last}\n\n`);
+
+    const interval = setInterval(async () => {
+      try {
+        const presence = await getTypingPresence(id, orgId);
+        if (!presence) return;
+
+        // Sem mudança: só keep-alive
+        const current = JSON.stringify(presence);
+        if (current === last) {
+          reply.raw.write(': ping\n\n');
+          return;
+        }
+
+        last = current;
+        reply.raw.write(`event: presence\ndata: ${current}\n\n`);
+      } catch (error) {
+        console.error('❌ Presence stream error:', error);
+      }
+    }, PRESENCE_STREAM_INTERVAL_MS);
+
+    request.raw.on('close', () => {
+      clearInterval(interval);
+      reply.raw.end();
+    });
+  });
+}
@@ -0,0 +1,141 @@
+// src/routes/traces.ts
+// Traces dos turnos do agente AI (painel de debug do CRM)
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { supabase } from '../lib/supabase.js';
+
+// ===========================
+// TYPES
+// ===========================
+
+interface TracesQuery {
+  orgId?: string;
+  limit?: string;
+}
+
+interface IdParams {
+  id: string;
+}
+
+// ===========================
+// CONFIG
+// ===========================
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Listagem sem os campos pesados (prompt, chunks, tools)
+const TRACE_SUMMARY_COLUMNS = 'id, thread_id, agent_id, status, reason, model, response, message_ids, input_tokens, output_tokens, latency_ms, error, created_at';
+
+// ===========================
+// ROUTES
+// ===========================
+
+export async function traceRoutes(app: FastifyInstance) {
+
+  // ===========================
+  // GET /api/threads/:id/traces
+  // Últimos turnos da AI na thread (mais recentes primeiro)
+  // ===========================
+  app.get('/api/threads/:id/traces', async (
+    request: FastifyRequest<{ Params: IdParams; Querystring: TracesQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const limit = Math.min(parseInt(request.query.limit || '') || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const { data, error } = await supabase
+      .from('ai_turn_traces')
+      .select(TRACE_SUMMARY_COLUMNS)
+      .eq('thread_id', id)
+      .eq('organization_id', orgId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Error listing traces:', error);
+      return reply.status(500).send({ error: error.message });
+    }
+
+    return reply.send({ traces: data || [] });
+  });
+
+  // ===========================
+  // GET /api/traces/:id
+  // Trace completo de um turno (id = ai_turn_id das mensagens)
+  // ===========================
+  app.get('/api/traces/:id', async (
+    request: FastifyRequest<{ Params: IdParams; Querystring: TracesQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const { data: trace } = await supabase
+      .from('ai_turn_traces')
+      .select('*')
+      .eq('id', id)
+      .eq('organization_id', orgId)
+      .single();
+
+    if (!trace) {
+      return reply.status(404).send({ error: 'Trace not found' });
+    }
+
+    return reply.send(trace);
+  });
+
+  // ===========================
+  // GET /api/messages/:id/trace
+  // Trace do turno que gerou uma mensagem enviada pela AI
+  // ===========================
+  app.get('/api/messages/:id/trace', async (
+    request: FastifyRequest<{ Params: IdParams; Querystring: TracesQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { id } = request.params;
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const { data: message } = await supabase
+      .from('messages')
+      .select('id, ai_turn_id')
+      .eq('id', id)
+      .eq('organization_id', orgId)
+      .single();
+
+    if (!message) {
+      return reply.status(404).send({ error: 'Message not found' });
+    }
+
+    if (!message.ai_turn_id) {
+      return reply.status(404).send({ error: 'Message was not sent by the AI agent' });
+    }
+
+    const { data: trace } = await supabase
+      .from('ai_turn_traces')
+      .select('*')
+      .eq('id', message.ai_turn_id)
+      .eq('organization_id', orgId)
+      .single();
+
+    if (!trace) {
+      return reply.status(404).send({ error: 'Trace not found' });
+    }
+
+    return reply.send(trace);
+  });
+}
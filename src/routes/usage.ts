@@ -0,0 +1,94 @@
+// src/routes/usage.ts
+// Relatório de uso de AI (tokens, custo estimado) e orçamento da organização
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getUsageSummary, checkOrganizationBudget, getMonthStart, type UsageSummaryRow } from '../services/usage.js';
+
+// ===========================
+// TYPES
+// ===========================
+
+interface UsageQuery {
+  orgId?: string;
+  from?: string;
+  to?: string;
+}
+
+// ===========================
+// HELPERS
+// ===========================
+
+type UsageTotals = Omit<UsageSummaryRow, 'agent_id' | 'provider' | 'kind' | 'model'>;
+
+function aggregateUsage(rows: UsageSummaryRow[], groupBy: (row: UsageSummaryRow) => string | null): Record<string, UsageTotals> {
+  const totals: Record<string, UsageTotals> = {};
+
+  for (const row of rows) {
+    const group = groupBy(row) || 'none';
+    const total = totals[group] ||= { requests: 0, input_tokens: 0, output_tokens: 0, embedding_tokens: 0, rerank_tokens: 0, rerank_calls: 0, cost_usd: 0 };
+    total.requests += Number(row.requests);
+    total.input_tokens += Number(row.input_tokens);
+    total.output_tokens += Number(row.output_tokens);
+    total.embedding_tokens += Number(row.embedding_tokens);
+    total.rerank_tokens += Number(row.rerank_tokens);
+    total.rerank_calls += Number(row.rerank_calls);
+    total.cost_usd += Number(row.cost_usd);
+  }
+
+  return totals;
+}
+
+// ===========================
+// ROUTES
+// ===========================
+
+export async function usageRoutes(app: FastifyInstance) {
+
+  // ===========================
+  // GET /api/usage
+  // Uso agregado no período (padrão: mês corrente) + situação do orçamento
+  // ===========================
+  app.get('/api/usage', async (
+    request: FastifyRequest<{ Querystring: UsageQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { orgId } = request.query;
+
+    if (!orgId) {
+      return reply.status(400).send({ error: 'Missing orgId parameter' });
+    }
+
+    const from = request.query.from ? new Date(request.query.from) : getMonthStart();
+    const to = request.query.to ? new Date(request.query.to) : new Date();
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return reply.status(400).send({ error: 'Invalid from/to range' });
+    }
+
+    try {
+      const [rows, budget] = await Promise.all([
+        getUsageSummary(orgId, from, to),
+        checkOrganizationBudget(orgId),
+      ]);
+
+      return reply.send({
+        organization_id: orgId,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        total: aggregateUsage(rows, () => 'total').total || null,
+        by_agent: aggregateUsage(rows, row => row.agent_id),
+        by_model: aggregateUsage(rows, row => row.model),
+        rows,
+        budget: {
+          status: budget.status,
+          monthly_budget_usd: budget.budgetUsd,
+          spent_this_month_usd: budget.spentUsd,
+          soft_limit_percent: budget.softLimitPercent,
+        },
+      });
+    } catch (error: any) {
+      console.error('❌ Error loading AI usage:', error);
+      return reply.status(500).send({ error: error.message });
+    }
+  });
+}
@@ -0,0 +1,87 @@
+// src/routes/whatsapp-messages.ts
+// Rotas da fila outbound de mensagens do WhatsApp (CRM / atendentes humanos)
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { supabase } from '../lib/supabase.js';
+import { recordHumanActivity } from '../services/handoff.js';
+import { enqueueWhatsAppMessage } from '../services/outbound-queue.js';
+import type { InteractiveMessage, QuickReplyButton } from '../types/whatsapp-messages.js';
+
+// ===========================
+// TYPES
+// ===========================
+
+interface EnqueueMessageBody {
+  organization_id: string;
+  thread_id: string;
+  content: string;
+  buttons?: QuickReplyButton[];
+  interactive?: InteractiveMessage;
+  sender_user_id?: string;
+}
+
+// ===========================
+// ROUTES
+// ===========================
+
+export async function whatsappMessageRoutes(app: FastifyInstance) {
+
+  // ===========================
+  // POST /api/whatsapp/messages
+  // Enfileira uma mensagem para envio (processada pela função send-whatsapp-message)
+  // Retorna 202 com o id da mensagem; status final chega via whatsapp_status
+  // ===========================
+  app.post('/api/whatsapp/messages', async (
+    request: FastifyRequest<{ Body: EnqueueMessageBody }>,
+    reply: FastifyReply
+  ) => {
+    const body = request.body;
+
+    if (!body.organization_id) {
+      return reply.status(400).send({ error: 'Missing organization_id' });
+    }
+
+    if (!body.thread_id) {
+      return reply.status(400).send({ error: 'Missing thread_id' });
+    }
+
+    const content = body.interactive?.body || body.content;
+    if (!content) {
+      return reply.status(400).send({ error: 'Missing content' });
+    }
+
+    try {
+      // Validar que thread pertence à organização (MULTI-TENANT)
+      const { data: thread } = await supabase
+        .from('message_threads')
+        .select('id')
+        .eq('id', body.thread_id)
+        .eq('organization_id', body.organization_id)
+        .single();
+
+      if (!thread) {
+        return reply.status(404).send({ error: 'Thread not found' });
+      }
+
+      // Criar a linha já na fila, para o CRM exibir a mensagem imediatamente
+      const { messageId } = await enqueueWhatsAppMessage({
+        organizationId: body.organization_id,
+        threadId: body.thread_id,
+        content: body.content || content,
+        buttons: body.buttons,
+        interactive: body.interactive,
+        senderUserId: body.sender_user_id,
+      });
+
+      // Mensagem de atendente humano: humano assume a thread (AI pausada)
+      if (body.sender_user_id) {
+        await recordHumanActivity(body.thread_id, body.organization_id, body.sender_user_id);
+      }
+
+      return reply.status(202).send({ messageId, status: 'queued' });
+    } catch (error: any) {
+      console.error('❌ Error queueing message:', error);
+      return reply.status(500).send({ error: error.message });
+    }
+  });
+}
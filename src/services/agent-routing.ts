@@ -0,0 +1,304 @@
+// src/services/agent-routing.ts
+// Roteamento de threads para um agente AI específico
+//
+// A thread guarda o agente responsável em message_threads.assigned_agent_id.
+// Atribuição manual (CRM) é fixa enquanto o agente estiver habilitado. Atribuição
+// automática é reavaliada a cada batch: o agente fica enquanto suas regras baterem;
+// senão as routing_rules dos agentes habilitados são avaliadas: vence a regra de
+// maior routing_priority; sem match, usa o agente is_default (ou o mais antigo habilitado).
+
+import { supabase, type AIAgent, type AgentRoutingRules, type AgentAssignmentSource } from '../lib/supabase.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface RoutingContext {
+  businessNumber?: string | null;
+  opportunityStageId?: string | null;
+  message?: string;
+  now?: Date;
+}
+
+export type RoutingReason = 'assigned' | 'rule' | 'default' | 'fallback';
+
+type RoutableAgent = Pick<
+  AIAgent,
+  'id' | 'name' | 'is_enabled' | 'routing_rules' | 'routing_priority' | 'is_default' | 'followup_delay_hours'
+>;
+
+export interface ResolvedAgent {
+  agent: RoutableAgent;
+  reason: RoutingReason;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const AGENT_COLUMNS = 'id, name, is_enabled, routing_rules, routing_priority, is_default, followup_delay_hours, created_at';
+const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+const DEFAULT_BUSINESS_DAYS = [1, 2, 3, 4, 5];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// =============================================================================
+// AVALIAÇÃO DE REGRAS
+// =============================================================================
+
+function normalizePhone(phone: string): string {
+  return phone.replace('whatsapp:', '').replace(/[^\d+]/g, '');
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Verifica se `now` está dentro do horário comercial configurado
+ */
+export function isWithinBusinessHours(
+  hours: NonNullable<AgentRoutingRules['business_hours']>,
+  now: Date = new Date()
+): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone || DEFAULT_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const day = WEEKDAYS.indexOf(get('weekday'));
+  const minutes = Number(get('hour')) * 60 + Number(get('minute'));
+
+  if (!(hours.days || DEFAULT_BUSINESS_DAYS).includes(day)) return false;
+
+  const start = toMinutes(hours.start);
+  const end = toMinutes(hours.end);
+
+  // Janela que cruza a meia-noite (ex: 22:00-06:00)
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Verifica se as regras de um agente batem com o contexto
+ * Regras vazias nunca batem (o agente só entra como default/fallback)
+ */
+export function matchesRoutingRules(
+  rules: AgentRoutingRules | null | undefined,
+  context: RoutingContext
+): boolean {
+  if (!rules) return false;
+
+  let hasCondition = false;
+
+  if (rules.whatsapp_numbers?.length) {
+    hasCondition = true;
+    if (!context.businessNumber) return false;
+    const number = normalizePhone(context.businessNumber);
+    if (!rules.whatsapp_numbers.some(n => normalizePhone(n) === number)) return false;
+  }
+
+  if (rules.opportunity_stage_ids?.length) {
+    hasCondition = true;
+    if (!context.opportunityStageId || !rules.opportunity_stage_ids.includes(context.opportunityStageId)) {
+      return false;
+    }
+  }
+
+  if (rules.product_keywords?.length) {
+    hasCondition = true;
+    if (!context.message) return false;
+    const text = normalizeText(context.message);
+    if (!rules.product_keywords.some(keyword => text.includes(normalizeText(keyword)))) return false;
+  }
+
+  if (rules.business_hours) {
+    hasCondition = true;
+    const inside = isWithinBusinessHours(rules.business_hours, context.now);
+    if (inside !== ((rules.business_hours.match || 'inside') === 'inside')) return false;
+  }
+
+  return hasCondition;
+}
+
+/**
+ * Escolhe o agente para o contexto entre os agentes habilitados
+ */
+export function selectAgent(
+  agents: (RoutableAgent & { created_at?: string })[],
+  context: RoutingContext
+): ResolvedAgent | null {
+  const enabled = agents.filter(a => a.is_enabled);
+  if (enabled.length === 0) return null;
+
+  const matched = enabled
+    .filter(a => matchesRoutingRules(a.routing_rules, context))
+    .sort((a, b) => (b.routing_priority || 0) - (a.routing_priority || 0));
+
+  if (matched.length > 0) {
+    return { agent: matched[0], reason: 'rule' };
+  }
+
+  const defaultAgent = enabled.find(a => a.is_default);
+  if (defaultAgent) {
+    return { agent: defaultAgent, reason: 'default' };
+  }
+
+  const [oldest] = [...enabled].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  return { agent: oldest, reason: 'fallback' };
+}
+
+// =============================================================================
+// ATRIBUIÇÃO
+// =============================================================================
+
+/**
+ * Persiste o agente responsável pela thread e a origem da atribuição
+ */
+async function saveAssignment(
+  threadId: string,
+  organizationId: string,
+  agentId: string | null,
+  source: AgentAssignmentSource
+): Promise<void> {
+  const { error } = await supabase
+    .from('message_threads')
+    .update({
+      assigned_agent_id: agentId,
+      assigned_agent_at: agentId ? new Date().toISOString() : null,
+      assigned_agent_source: agentId ? source : null,
+    })
+    .eq('id', threadId)
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    throw new Error(`Failed to assign agent: ${error.message}`);
+  }
+}
+
+/**
+ * Resolve o agente que deve responder a thread
+ * Mantém o agente atribuído manualmente ou cujas regras ainda batem; senão roteia
+ * pelas regras e persiste a escolha
+ */
+export async function resolveThreadAgent(
+  threadId: string,
+  organizationId: string,
+  context: Omit<RoutingContext, 'businessNumber' | 'opportunityStageId'> = {}
+): Promise<ResolvedAgent | null> {
+  const [threadResult, agentsResult] = await Promise.all([
+    supabase
+      .from('message_threads')
+      .select('id, assigned_agent_id, assigned_agent_source, whatsapp_business_number, opportunity_id')
+      .eq('id', threadId)
+      .eq('organization_id', organizationId)
+      .single(),
+    supabase
+      .from('ai_agents')
+      .select(AGENT_COLUMNS)
+      .eq('organization_id', organizationId)
+      .eq('is_enabled', true),
+  ]);
+
+  const thread = threadResult.data;
+  const agents = (agentsResult.data || []) as (RoutableAgent & { created_at?: string })[];
+
+  if (!thread) {
+    throw new Error('Thread not found');
+  }
+
+  const assigned = thread.assigned_agent_id
+    ? agents.find(a => a.id === thread.assigned_agent_id)
+    : undefined;
+
+  if (assigned && thread.assigned_agent_source === 'manual') {
+    return { agent: assigned, reason: 'assigned' };
+  }
+
+  if (thread.assigned_agent_id && !assigned) {
+    console.log(`⚠️ Assigned agent ${thread.assigned_agent_id} is disabled, re-routing thread ${threadId}`);
+  }
+
+  let opportunityStageId: string | null = null;
+  if (thread.opportunity_id) {
+    const { data: opportunity } = await supabase
+      .from('opportunities')
+      .select('stage_id')
+      .eq('id', thread.opportunity_id)
+      .eq('organization_id', organizationId)
+      .single();
+    opportunityStageId = opportunity?.stage_id || null;
+  }
+
+  const routingContext: RoutingContext = {
+    ...context,
+    businessNumber: thread.whatsapp_business_number,
+    opportunityStageId,
+  };
+
+  // Atribuição automática continua enquanto as regras do agente baterem
+  if (assigned && matchesRoutingRules(assigned.routing_rules, routingContext)) {
+    return { agent: assigned, reason: 'assigned' };
+  }
+
+  const resolved = selectAgent(agents, routingContext);
+
+  if (!resolved) return null;
+
+  if (resolved.agent.id === thread.assigned_agent_id) {
+    return resolved;
+  }
+
+  await saveAssignment(threadId, organizationId, resolved.agent.id, 'rule');
+  console.log(`🧭 Thread ${threadId} routed to agent "${resolved.agent.name}" (${resolved.reason})`);
+
+  return resolved;
+}
+
+/**
+ * Reatribui a thread a outro agente (ou limpa com null para rotear de novo)
+ */
+export async function assignThreadAgent(
+  threadId: string,
+  organizationId: string,
+  agentId: string | null
+): Promise<void> {
+  const { data: thread } = await supabase
+    .from('message_threads')
+    .select('id')
+    .eq('id', threadId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (!thread) {
+    throw new Error('Thread not found');
+  }
+
+  if (agentId) {
+    const { data: agent } = await supabase
+      .from('ai_agents')
+      .select('id, is_enabled')
+      .eq('id', agentId)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (!agent) {
+      throw new Error('Agent not found');
+    }
+    if (!agent.is_enabled) {
+      throw new Error('Agent is disabled');
+    }
+  }
+
+  await saveAssignment(threadId, organizationId, agentId, 'manual');
+  console.log(`🧭 Thread ${threadId} ${agentId ? `reassigned to agent ${agentId}` : 'unassigned'}`);
+}
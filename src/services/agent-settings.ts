@@ -0,0 +1,103 @@
+// src/services/agent-settings.ts
+// Configurações de modelo por agente (modelo, temperatura, tokens, histórico)
+//
+// Valores inválidos ou ausentes em ai_agents caem no padrão com um aviso no log,
+// para que um agente mal configurado continue respondendo.
+
+import type { AIAgent } from '../lib/supabase.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface AgentModelSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number | undefined; // undefined = padrão da API
+  historyLimit: number;
+  historyTokenBudget: number; // tokens (estimados) do histórico enviado ao modelo
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+export const DEFAULT_AGENT_MODEL_SETTINGS: AgentModelSettings = {
+  model: 'claude-sonnet-4-20250514',
+  maxTokens: 1024,
+  temperature: undefined,
+  historyLimit: 20,
+  historyTokenBudget: 6000,
+};
+
+const MAX_TOKENS_LIMIT = 8192;
+const HISTORY_LIMIT_MAX = 200;
+const HISTORY_TOKEN_BUDGET_MIN = 500;
+const HISTORY_TOKEN_BUDGET_MAX = 100000;
+const MODEL_PATTERN = /^claude-[a-z0-9.-]+$/;
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Lê e valida as configurações de modelo de um agente
+ */
+export function resolveAgentModelSettings(
+  agent: Pick<AIAgent, 'id' | 'model' | 'max_tokens' | 'temperature' | 'history_limit' | 'history_token_budget'>
+): AgentModelSettings {
+  const settings = { ...DEFAULT_AGENT_MODEL_SETTINGS };
+  const invalid: string[] = [];
+
+  if (agent.model != null) {
+    if (typeof agent.model === 'string' && MODEL_PATTERN.test(agent.model)) {
+      settings.model = agent.model;
+    } else {
+      invalid.push(`model=${agent.model}`);
+    }
+  }
+
+  if (agent.max_tokens != null) {
+    if (isIntegerInRange(agent.max_tokens, 1, MAX_TOKENS_LIMIT)) {
+      settings.maxTokens = agent.max_tokens;
+    } else {
+      invalid.push(`max_tokens=${agent.max_tokens}`);
+    }
+  }
+
+  if (agent.temperature != null) {
+    // numeric do Postgres pode chegar como string
+    const temperature = Number(agent.temperature);
+    if (!Number.isNaN(temperature) && temperature >= 0 && temperature <= 1) {
+      settings.temperature = temperature;
+    } else {
+      invalid.push(`temperature=${agent.temperature}`);
+    }
+  }
+
+  if (agent.history_limit != null) {
+    if (isIntegerInRange(agent.history_limit, 1, HISTORY_LIMIT_MAX)) {
+      settings.historyLimit = agent.history_limit;
+    } else {
+      invalid.push(`history_limit=${agent.history_limit}`);
+    }
+  }
+
+  if (agent.history_token_budget != null) {
+    if (isIntegerInRange(agent.history_token_budget, HISTORY_TOKEN_BUDGET_MIN, HISTORY_TOKEN_BUDGET_MAX)) {
+      settings.historyTokenBudget = agent.history_token_budget;
+    } else {
+      invalid.push(`history_token_budget=${agent.history_token_budget}`);
+    }
+  }
+
+  if (invalid.length > 0) {
+    console.warn(`⚠️ Agent ${agent.id} has invalid settings (${invalid.join(', ')}), using defaults for them`);
+  }
+
+  return settings;
+}
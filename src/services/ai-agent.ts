@@ -1,7 +1,32 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { supabase } from '../lib/supabase.js';
-import { sendWhatsAppMessage } from './whatsapp.js';
+import { randomUUID } from 'node:crypto';
+import { supabase, type MediaAttachment } from '../lib/supabase.js';
+import {
+  sendWhatsAppMessage,
+  showTypingIndicator,
+  hideTypingIndicator,
+  getSessionWindowState,
+  reopenSessionWindow,
+  saveTurnSegments,
+  getTurnSegments,
+  failTurnSegments,
+  SessionWindowClosedError,
+  type ReplySegment,
+  type TurnSegment,
+} from './whatsapp.js';
+import { startTypingHeartbeat } from './presence.js';
 import { getRelevantContext, formatRAGContext } from './rag.js';
+import { isVisionEnabled, buildImageBlocks } from './vision.js';
+import { getAgentTools, executeAgentTool, type ToolTurnState } from './tools/index.js';
+import { finalizeInteractiveReply } from './interactive-reply.js';
+import { segmentResponse, getTypingDelayMs } from './response-segmenter.js';
+import { resolveAgentModelSettings } from './agent-settings.js';
+import { buildConversationHistory } from './conversation-history.js';
+import { assembleHistory, HUMAN_AGENT_PREFIX, type MessageContent } from './history-assembly.js';
+import { getQualificationSchema, buildMemorySummary, type ContactMemories } from './contact-memory.js';
+import { checkBudget, recordAnthropicUsage, BUDGET_DEGRADED_MODEL, type UsageContext } from './usage.js';
+import { transitionHandoff } from './handoff.js';
+import { startTurnTrace, traceRAGChunks, traceLLMCall, traceToolCall, saveTurnTrace, completeTurnTrace } from './turn-trace.js';
 
 interface ProcessMessageOptions {
   threadId: string;
@@ -9,91 +34,19 @@ interface ProcessMessageOptions {
   agentId: string;
   contactId: string;
   message: string;
+  attachments?: MediaAttachment[];
   isBatched?: boolean;
   messageCount?: number;
+  // Mensagens do batch atual (já combinadas em message, saem do histórico)
+  pendingMessageIds?: string[];
+  // Follow-up automático: cliente em silêncio há N horas (message vazio)
+  followUp?: { hoursSilent: number; attempt: number };
+  // Id do turno estável entre retries do step (partes já enviadas não saem de novo)
+  turnId?: string;
+  // Não envia nada pelo WhatsApp, só retorna a resposta (avaliação offline)
+  dryRun?: boolean;
 }
 
-interface ToolResult {
-  success: boolean;
-  message: string;
-  data?: any;
-}
-
-interface ContactMemories {
-  name_confirmed?: boolean;
-  name_asked?: boolean;
-  original_whatsapp_name?: string;
-  facts?: string[];
-  objections?: string[];
-  qualification?: Record<string, any>;
-}
-
-// Available tools for the agent
-const AVAILABLE_TOOLS: Anthropic.Tool[] = [
-  {
-    name: "update_contact",
-    description: `Atualiza informacoes do contato no CRM.
-
-CONTEXTO IMPORTANTE:
-O nome atual no sistema veio do perfil do WhatsApp e provavelmente NAO e o nome real do cliente.
-Exemplos comuns: "g.s." (real: Gianluca Silveira), "Mae do Pedro" (real: Maria Santos)
-
-REGRAS PARA NOME:
-1. Use APENAS quando o cliente CONFIRMAR o nome real
-2. O fluxo correto e:
-   - Agente pergunta: "Posso confirmar seu nome completo para nosso cadastro?"
-   - Cliente responde: "Gianluca Silveira" ou "Meu nome e Maria"
-   - Agente confirma: "Perfeito, Gianluca!" e usa a tool
-3. Marque name_was_confirmed: true ao usar
-
-Para email, telefone e empresa: pode atualizar diretamente quando informado.`,
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        full_name: {
-          type: "string",
-          description: "Nome completo REAL do contato (nao o nome do WhatsApp)"
-        },
-        first_name: { type: "string", description: "Primeiro nome real do contato" },
-        last_name: { type: "string", description: "Sobrenome do contato" },
-        email: { type: "string", description: "Email do contato" },
-        phone: { type: "string", description: "Telefone do contato" },
-        company_name: { type: "string", description: "Nome da empresa do contato" },
-        name_was_confirmed: {
-          type: "boolean",
-          description: "OBRIGATORIO para nome. True = cliente informou/confirmou o nome real."
-        }
-      },
-    },
-  },
-  {
-    name: "mark_name_asked",
-    description: `Marca que voce ja perguntou o nome do cliente nesta conversa.
-
-USE ESTA TOOL IMEDIATAMENTE apos perguntar o nome para evitar perguntar novamente.
-Exemplo de uso: Apos enviar "Posso confirmar seu nome completo?", chame esta tool.`,
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        question_asked: {
-          type: "string",
-          description: "A pergunta que voce fez (ex: 'Perguntei nome completo para cadastro')"
-        }
-      },
-    },
-  },
-  {
-    name: "transfer_to_human",
-    description: "Transfere a conversa para um atendente humano. Use quando o cliente pedir explicitamente, o assunto for muito complexo, ou houver reclamacao seria.",
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        reason: { type: "string", description: "Motivo da transferencia para o atendente" },
-      },
-    },
-  },
-];
-
 /**
  * Detecta se o nome parece ser um nome real ou um nome de perfil do WhatsApp
  */
@@ -136,140 +89,6 @@ function analyzeNameQuality(name: string | null): 'real' | 'suspicious' | 'unkno
   return 'unknown';
 }
 
-/**
- * Executa uma tool e retorna o resultado
- */
-async function executeTool(
-  toolName: string,
-  args: any,
-  context: { contactId: string; organizationId: string; threadId: string }
-): Promise<ToolResult> {
-  console.log(`🔧 Executing tool: ${toolName}`, args);
-
-  try {
-    switch (toolName) {
-      case 'update_contact': {
-        const updateData: Record<string, any> = {};
-
-        // VALIDACAO: Nome so pode ser alterado com confirmacao
-        if (args.full_name || args.first_name || args.last_name) {
-          if (!args.name_was_confirmed) {
-            console.log('❌ Name update rejected: no confirmation flag');
-            return {
-              success: false,
-              message: 'ERRO: Para atualizar o nome, o cliente precisa ter confirmado. Use name_was_confirmed: true apenas quando o cliente informou o nome real.',
-              data: { requires_confirmation: true }
-            };
-          }
-
-          // Buscar nome atual para salvar como original
-          const { data: currentContact } = await supabase
-            .from('contacts')
-            .select('full_name')
-            .eq('id', context.contactId)
-            .single();
-
-          // Preparar dados do nome
-          if (args.full_name) updateData.full_name = args.full_name;
-          if (args.first_name) updateData.first_name = args.first_name;
-          if (args.last_name) updateData.last_name = args.last_name;
-
-          // Atualizar memorias
-          const memoryUpdate: Record<string, any> = {
-            name_confirmed: true,
-            name_confirmed_at: new Date().toISOString(),
-            name_asked: true,
-            updated_at: new Date().toISOString(),
-          };
-
-          // Salvar nome original do WhatsApp
-          const { data: existingMemory } = await supabase
-            .from('contact_memories')
-            .select('original_whatsapp_name')
-            .eq('contact_id', context.contactId)
-            .single();
-
-          if (!existingMemory?.original_whatsapp_name && currentContact?.full_name) {
-            memoryUpdate.original_whatsapp_name = currentContact.full_name;
-          }
-
-          await supabase
-            .from('contact_memories')
-            .upsert({
-              organization_id: context.organizationId,
-              contact_id: context.contactId,
-              ...memoryUpdate,
-            }, {
-              onConflict: 'contact_id',
-            });
-        }
-
-        // Outros campos nao precisam de confirmacao
-        if (args.email) updateData.email = args.email;
-        if (args.phone) updateData.phone = args.phone;
-        if (args.company_name) updateData.company_name = args.company_name;
-
-        if (Object.keys(updateData).length === 0) {
-          return { success: false, message: 'Nenhum campo para atualizar' };
-        }
-
-        const { error } = await supabase
-          .from('contacts')
-          .update(updateData)
-          .eq('id', context.contactId);
-
-        if (error) {
-          console.error('Error updating contact:', error);
-          return { success: false, message: error.message };
-        }
-
-        console.log('✅ Contact updated:', updateData);
-        return { success: true, message: 'Contato atualizado com sucesso', data: updateData };
-      }
-
-      case 'mark_name_asked': {
-        const { error } = await supabase
-          .from('contact_memories')
-          .upsert({
-            organization_id: context.organizationId,
-            contact_id: context.contactId,
-            name_asked: true,
-            updated_at: new Date().toISOString(),
-          }, {
-            onConflict: 'contact_id',
-          });
-
-        if (error) {
-          console.error('Error marking name asked:', error);
-          return { success: false, message: error.message };
-        }
-
-        console.log('✅ Marked name as asked for contact:', context.contactId);
-        return { success: true, message: 'Marcado que perguntou o nome' };
-      }
-
-      case 'transfer_to_human': {
-        const { error } = await supabase
-          .from('message_threads')
-          .update({ needs_human_attention: true })
-          .eq('id', context.threadId);
-
-        if (error) {
-          console.error('Error transferring to human:', error);
-          return { success: false, message: error.message };
-        }
-        return { success: true, message: 'Conversa marcada para atencao humana' };
-      }
-
-      default:
-        return { success: false, message: `Tool desconhecida: ${toolName}` };
-    }
-  } catch (error) {
-    console.error(`Error executing tool ${toolName}:`, error);
-    return { success: false, message: error instanceof Error ? error.message : 'Erro desconhecido' };
-  }
-}
-
 /**
  * Constroi instrucao de nome baseada no estado
  */
@@ -324,16 +143,115 @@ NOME PARECE CORRETO: "${contactName}"
    Se o cliente corrigir o nome, use update_contact com name_was_confirmed: true.`;
 }
 
+/**
+ * Instrucao para o agente gerar um follow-up (cliente parou de responder)
+ */
+function buildFollowUpInstruction(hoursSilent: number, attempt: number): string {
+  return `[INSTRUCAO DO SISTEMA - NAO E MENSAGEM DO CLIENTE]
+O cliente nao responde ha ${Math.round(hoursSilent)} horas (follow-up #${attempt}).
+Escreva UMA mensagem curta de follow-up retomando o ponto exato onde a conversa parou.
+- Seja natural, sem pressao e sem repetir a ultima mensagem
+- Se fizer sentido, faca uma pergunta simples para facilitar a resposta
+- Nao mencione que esta e uma mensagem automatica`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Envia as partes do turno que ainda nao sairam, com "digitando" entre elas
+ * Para na primeira falha (ou janela fechada) e marca o resto como failed
+ */
+async function sendTurnSegments(
+  threadId: string,
+  organizationId: string,
+  turnId: string,
+  segments: TurnSegment[]
+): Promise<void> {
+  const pending = segments.filter(segment => !segment.sent);
+
+  for (let i = 0; i < pending.length; i++) {
+    const segment = pending[i];
+
+    if (segment.index > 1) {
+      await showTypingIndicator(threadId, organizationId);
+      await sleep(getTypingDelayMs(segment.text));
+    }
+
+    let result;
+    try {
+      result = await sendWhatsAppMessage({
+        threadId,
+        organizationId,
+        content: segment.text,
+        interactive: segment.interactive,
+        messageId: segment.messageId,
+        aiTurn: { id: turnId, segment: segment.index, segments: segment.count },
+        fallbackTemplateId: null, // janela ja checada no inicio do turno
+      });
+    } catch (error) {
+      // Janela fechou durante o turno: nao repete o turno (nem o template) por causa disso
+      if (!(error instanceof SessionWindowClosedError)) throw error;
+      console.warn(`🔒 Session window closed before segment ${segment.index}/${segment.count}, not sending the rest`);
+      await failTurnSegments(organizationId, pending.slice(i), 'Session window closed during AI turn');
+      return;
+    }
+
+    if (result.status === 'failed') {
+      console.error(`❌ Segment ${segment.index}/${segment.count} failed, not sending the rest`);
+      await failTurnSegments(organizationId, pending.slice(i + 1), `Segment ${segment.index} failed`);
+      return;
+    }
+    segment.sent = true;
+  }
+}
+
 /**
  * Processa mensagem com AI e envia resposta
  */
 export async function processAIMessage(options: ProcessMessageOptions) {
-  const { threadId, organizationId, agentId, contactId, message, isBatched, messageCount } = options;
+  const { threadId, organizationId, agentId, contactId, message, attachments = [], isBatched, messageCount, pendingMessageIds, followUp, dryRun } = options;
 
   console.log(`🤖 Processing message for thread ${threadId}`);
   if (isBatched) {
     console.log(`   Batched: ${messageCount} messages combined`);
   }
+  if (attachments.length > 0) {
+    console.log(`   Attachments: ${attachments.map(a => a.media_type).join(', ')}`);
+  }
+
+  // Id do turno: trace + ai_turn_id das mensagens enviadas
+  const turnId = options.turnId || randomUUID();
+  const trace = startTurnTrace({ id: turnId, organizationId, threadId, agentId, contactId });
+
+  // Retry de um turno que ja gravou a resposta: envia so as partes que faltaram
+  if (!dryRun && options.turnId) {
+    const savedSegments = await getTurnSegments(organizationId, turnId);
+    if (savedSegments.length > 0) {
+      console.log(`🔁 Turn ${turnId} already has a saved reply, sending the missing segments`);
+      await sendTurnSegments(threadId, organizationId, turnId, savedSegments);
+      await completeTurnTrace(organizationId, turnId, savedSegments.map(segment => segment.messageId));
+
+      const segments = savedSegments.map(segment => segment.text);
+      return { success: true, response: segments.join('\n\n'), toolsExecuted: [] as string[], turnId, segments };
+    }
+  }
+
+  // Janela de 24h checada uma vez por turno: fechada, nenhuma resposta livre seria entregue
+  if (!dryRun) {
+    const sessionWindow = await getSessionWindowState(threadId, organizationId);
+    if (!sessionWindow.open) {
+      await reopenSessionWindow(threadId, organizationId, sessionWindow);
+      trace.reason = 'session_window_closed';
+      await saveTurnTrace(trace, 'skipped');
+      return { success: false, response: null, toolsExecuted: [] as string[], reason: 'session_window_closed' };
+    }
+  }
+
+  // Heartbeat desde o inicio: historico, resumo, orcamento e RAG podem passar do TTL do "digitando"
+  // (dry run nao mexe no "digitando")
+  const stopTypingHeartbeat = dryRun ? async () => {} : startTypingHeartbeat(threadId, organizationId);
 
   try {
     // 1. Buscar configuracoes do agente, integracao Claude, memorias e contato
@@ -372,6 +290,12 @@ export async function processAIMessage(options: ProcessMessageOptions) {
 
     const agent = agentResult.data;
     const claudeIntegration = claudeIntegrationResult.data;
+    const claudeConfig = claudeIntegration?.config_values as Record<string, unknown> | null;
+    const modelSettings = resolveAgentModelSettings(agent);
+    const agentTools = getAgentTools(agent.enabled_tools, claudeConfig);
+    const toolDefinitions = agentTools.length > 0 ? agentTools.map(t => t.definition) : undefined;
+    const interactiveEnabled = agentTools.some(t => t.definition.name === 'reply_with_options');
+    console.log(`   Model: ${modelSettings.model} (max_tokens ${modelSettings.maxTokens}, history ${modelSettings.historyLimit} msgs / ~${modelSettings.historyTokenBudget} tokens)`);
     const memories = memoriesResult.data as ContactMemories | null;
     const contact = contactResult.data;
 
@@ -382,50 +306,88 @@ export async function processAIMessage(options: ProcessMessageOptions) {
     }
 
     const anthropic = new Anthropic({ apiKey: anthropicKey });
+    const usageContext: UsageContext = { organizationId, agentId, threadId };
+    const usagePurpose = followUp ? 'followup' : 'reply';
+
+    // 2.1 Orcamento mensal: limite suave usa modelo mais barato, limite total passa para humano
+    const budget = await checkBudget(organizationId, claudeIntegration?.config_values as Record<string, unknown> | null);
+    if (budget.status === 'hard_limit') {
+      console.warn(`💸 AI budget exhausted for org ${organizationId}: $${budget.spentUsd.toFixed(2)} / $${budget.budgetUsd}`);
+      await stopTypingHeartbeat();
+      await hideTypingIndicator(threadId, organizationId);
+
+      // Follow-up automatico simplesmente nao sai; mensagem do cliente vai para um humano
+      if (!followUp && !dryRun) {
+        await transitionHandoff(threadId, organizationId, 'human_pending', { reason: 'ai_budget_exceeded' });
+      }
+
+      trace.reason = 'budget_exceeded';
+      await saveTurnTrace(trace, 'skipped');
+      return { success: false, response: null, toolsExecuted: [] as string[], reason: 'budget_exceeded' };
+    }
 
-    // 3. Buscar historico
-    const { data: history } = await supabase
-      .from('messages')
-      .select('content, direction, sender_type')
-      .eq('thread_id', threadId)
-      .eq('organization_id', organizationId)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: true })
-      .limit(20);
-
-    // 4. Montar mensagens
-    const messages: Anthropic.MessageParam[] = (history || [])
-      .filter(m => m.content && m.content.trim() !== '')
-      .map(m => ({
-        role: m.direction === 'inbound' ? 'user' as const : 'assistant' as const,
-        content: m.content,
-      }));
-
-    if (message && message.trim() !== '') {
-      messages.push({ role: 'user', content: message });
+    if (budget.status === 'soft_limit') {
+      console.warn(`💸 AI budget above ${budget.softLimitPercent}% for org ${organizationId}, using ${BUDGET_DEGRADED_MODEL}`);
+      modelSettings.model = BUDGET_DEGRADED_MODEL;
     }
 
-    const validMessages = messages.filter(m => {
-      const content = typeof m.content === 'string' ? m.content : '';
-      return content.trim() !== '';
+    // 3. Buscar historico (mensagens recentes dentro do orcamento de tokens + resumo das anteriores)
+    const conversation = await buildConversationHistory({
+      anthropic,
+      threadId,
+      organizationId,
+      agentId,
+      maxMessages: modelSettings.historyLimit,
+      tokenBudget: modelSettings.historyTokenBudget,
+      pendingMessageIds,
     });
+    const history = conversation.messages;
+
+    // 4. Mensagem atual (imagens do batch como content blocks, opt-in por organização)
+    const imageBlocks = isVisionEnabled(claudeConfig)
+      ? await buildImageBlocks(attachments, organizationId)
+      : [];
+
+    let current: MessageContent | undefined;
+    if (imageBlocks.length > 0) {
+      current = [
+        ...imageBlocks,
+        { type: 'text', text: message && message.trim() !== '' ? message : '[Imagem enviada pelo cliente]' },
+      ];
+    } else if (message && message.trim() !== '') {
+      current = message;
+    } else if (followUp) {
+      current = buildFollowUpInstruction(followUp.hoursSilent, followUp.attempt);
+    }
+
+    // 4.1 Montar mensagens (notas internas viram contexto, batch atual nao se repete, papeis alternados)
+    const { messages: validMessages, internalNotes } = assembleHistory(history, { pendingMessageIds, current });
 
     if (validMessages.length === 0) {
       console.log('⚠️ No valid messages to process');
-      return { success: false, response: null };
+      await stopTypingHeartbeat();
+      await hideTypingIndicator(threadId, organizationId);
+
+      trace.reason = 'no_valid_messages';
+      await saveTurnTrace(trace, 'skipped');
+      return { success: false, response: null, toolsExecuted: [] as string[] };
     }
 
     // 5. Construir instrucao de nome
     const nameInstruction = buildNameInstruction(contact?.full_name, memories);
 
+    // 5.1 Resumo da memoria do contato (fatos, objecoes, qualificacao)
+    const memorySummary = buildMemorySummary(memories, getQualificationSchema(claudeConfig));
+
     // 6. Buscar contexto RAG (base de conhecimento)
     console.log('🔍 Fetching RAG context...');
-    const messageHistoryForRAG = (history || []).map(m => ({
-      content: m.content,
+    const messageHistoryForRAG = history.map(m => ({
+      content: m.content ?? undefined,
       direction: m.direction,
     }));
-    const ragContexts = await getRelevantContext(message, organizationId, messageHistoryForRAG);
+    const ragContexts = await getRelevantContext(message, organizationId, messageHistoryForRAG, usageContext);
     const ragSection = formatRAGContext(ragContexts);
+    traceRAGChunks(trace, ragContexts);
 
     if (ragContexts.length > 0) {
       console.log(`📚 RAG: ${ragContexts.length} knowledge chunks injected`);
@@ -442,7 +404,7 @@ ${ragSection}
 - Email: ${contact?.email || 'Nao informado'}
 - Telefone: ${contact?.phone || 'Nao informado'}
 
-## STATUS DO NOME DO CONTATO
+${memorySummary ? `## MEMORIA DO CONTATO\n${memorySummary}\n\n` : ''}${conversation.summary ? `## RESUMO DA CONVERSA ANTERIOR\n${conversation.summary}\n\n` : ''}${internalNotes.length > 0 ? `## NOTAS INTERNAS DA EQUIPE (nunca repasse ao cliente)\n${internalNotes.map(n => `- ${n}`).join('\n')}\n\n` : ''}## STATUS DO NOME DO CONTATO
 ${nameInstruction}
 
 ## TOM DE COMUNICACAO
@@ -453,19 +415,36 @@ ${nameInstruction}
 ## REGRAS IMPORTANTES
 NUNCA use tags [BUTTONS], [OPTIONS] ou similares
 NUNCA formate opcoes como lista numerada (1. 2. 3.)
-Responda de forma natural e fluida`;
+Mensagens marcadas com ${HUMAN_AGENT_PREFIX} foram enviadas por um colega humano; nunca use essa marcacao nas suas respostas
+${interactiveEnabled ? 'Para oferecer opcoes ao cliente, use a tool reply_with_options (botoes ou lista)\n' : ''}Responda de forma natural e fluida`;
+
+    trace.model = modelSettings.model;
+    trace.system_prompt = systemPrompt;
+    trace.prompt_sections = {
+      agent: agent.system_prompt || null,
+      knowledge: ragSection || null,
+      memory: memorySummary || null,
+      conversation_summary: conversation.summary,
+      internal_notes: internalNotes.join('\n') || null,
+      name_instruction: nameInstruction,
+    };
 
     // 8. Chamar Claude
+    let callStartedAt = Date.now();
     let response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1024,
+      model: modelSettings.model,
+      max_tokens: modelSettings.maxTokens,
+      temperature: modelSettings.temperature,
       system: systemPrompt,
       messages: validMessages,
-      tools: AVAILABLE_TOOLS,
+      tools: toolDefinitions,
     });
+    traceLLMCall(trace, response, callStartedAt);
+    await recordAnthropicUsage(usageContext, response, usagePurpose);
 
     // 9. Processar tool calls
     const toolsExecuted: string[] = [];
+    const turn: ToolTurnState = {};
     let currentMessages = [...validMessages];
     let maxIterations = 5;
     let iterations = 0;
@@ -484,11 +463,14 @@ Responda de forma natural e fluida`;
         console.log(`🔧 Tool call: ${toolUse.name}`);
         toolsExecuted.push(toolUse.name);
 
-        const result = await executeTool(
+        const toolStartedAt = Date.now();
+        const result = await executeAgentTool(
           toolUse.name,
           toolUse.input,
-          { contactId, organizationId, threadId }
+          { contactId, organizationId, threadId, agentId, turn, dryRun },
+          agentTools
         );
+        traceToolCall(trace, toolUse.name, toolUse.input, result, toolStartedAt);
 
         toolResults.push({
           type: 'tool_result',
@@ -500,13 +482,17 @@ Responda de forma natural e fluida`;
       currentMessages.push({ role: 'assistant', content: response.content });
       currentMessages.push({ role: 'user', content: toolResults });
 
+      callStartedAt = Date.now();
       response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
+        model: modelSettings.model,
+        max_tokens: modelSettings.maxTokens,
+        temperature: modelSettings.temperature,
         system: systemPrompt,
         messages: currentMessages,
-        tools: AVAILABLE_TOOLS,
+        tools: toolDefinitions,
       });
+      traceLLMCall(trace, response, callStartedAt);
+      await recordAnthropicUsage(usageContext, response, usagePurpose);
     }
 
     // 10. Extrair resposta
@@ -525,12 +511,16 @@ Responda de forma natural e fluida`;
         content: 'As ferramentas foram executadas. Agora responda ao cliente de forma natural.',
       });
 
+      callStartedAt = Date.now();
       const retryResponse = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
+        model: modelSettings.model,
+        max_tokens: modelSettings.maxTokens,
+        temperature: modelSettings.temperature,
         system: systemPrompt,
         messages: currentMessages,
       });
+      traceLLMCall(trace, retryResponse, callStartedAt);
+      await recordAnthropicUsage(usageContext, retryResponse, usagePurpose);
 
       const retryTextBlock = retryResponse.content.find(
         (block): block is Anthropic.TextBlock => block.type === 'text'
@@ -541,21 +531,63 @@ Responda de forma natural e fluida`;
     if (!aiResponse) {
       aiResponse = 'Desculpe, nao consegui processar sua mensagem. Pode repetir?';
     }
+    trace.response = aiResponse;
+
+    await stopTypingHeartbeat();
 
     console.log(`✅ AI response: "${aiResponse.substring(0, 100)}..."`);
     console.log(`   Tools: ${toolsExecuted.join(', ') || 'none'}`);
 
-    // 11. Enviar resposta
-    await sendWhatsAppMessage({
+    // 11. Dividir em partes (paragrafos) - segmentation desligada: divide so acima do limite do Twilio
+    // (interativa so na ultima parte, se o agente definiu opcoes; o texto alem do body sai antes)
+    const splitReply = (text: string): ReplySegment[] => {
+      const parts = claudeConfig?.response_segmentation === false
+        ? segmentResponse(text, { maxSegments: 1 })
+        : segmentResponse(text);
+      const last = parts.pop();
+      if (last === undefined) return [];
+
+      const finalized = turn.replyInteractive ? finalizeInteractiveReply(turn.replyInteractive, last) : null;
+      const tail: ReplySegment[] = finalized
+        ? [...finalized.leading.map(part => ({ text: part })), { text: finalized.interactive.body, interactive: finalized.interactive }]
+        : [{ text: last }];
+
+      return [...parts.map(part => ({ text: part })), ...tail];
+    };
+
+    // Dry run divide localmente e nao envia nada
+    if (dryRun) {
+      const segments = splitReply(aiResponse).map(segment => segment.text);
+      await saveTurnTrace(trace, 'completed');
+      return { success: true, response: aiResponse, toolsExecuted, turnId, segments };
+    }
+
+    // 12. Gravar as partes (texto normalizado e convertido) e enviar com "digitando" entre elas
+    const turnSegments = await saveTurnSegments({
       threadId,
       organizationId,
+      turnId,
       content: aiResponse,
+      split: splitReply,
     });
+    trace.message_ids.push(...turnSegments.map(segment => segment.messageId));
+
+    await sendTurnSegments(threadId, organizationId, turnId, turnSegments);
+
+    const segments = turnSegments.map(segment => segment.text);
+    if (segments.length > 1) {
+      console.log(`✂️ Response split into ${segments.length} messages (turn ${turnId})`);
+    }
+
+    await saveTurnTrace(trace, 'completed');
 
-    return { success: true, response: aiResponse, toolsExecuted };
+    return { success: true, response: aiResponse, toolsExecuted, turnId, segments };
 
   } catch (error) {
     console.error('❌ AI processing error:', error);
+    await saveTurnTrace(trace, 'failed', error);
     throw error;
+  } finally {
+    await stopTypingHeartbeat();
   }
 }
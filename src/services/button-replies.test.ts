@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchOptionByTitle, resolveSelectedOption } from './button-replies.js';
+
+const YES_NO = [
+  { id: 'yes', title: 'Sim' },
+  { id: 'no', title: 'Não' },
+];
+
+const PLANS = [
+  { id: 'basic', title: 'Plano básico' },
+  { id: 'premium', title: 'Plano premium' },
+  { id: 'visit', title: 'Agendar visita' },
+];
+
+describe('matchOptionByTitle', () => {
+  it('matches the exact title ignoring accents and case', () => {
+    assert.equal(matchOptionByTitle('nao', YES_NO)?.id, 'no');
+    assert.equal(matchOptionByTitle('PLANO BASICO!', PLANS)?.id, 'basic');
+  });
+
+  it('matches when the text starts with the title', () => {
+    assert.equal(matchOptionByTitle('Sim, pode ser amanhã', YES_NO)?.id, 'yes');
+  });
+
+  it('matches short text that contains the title', () => {
+    assert.equal(matchOptionByTitle('acho que sim', YES_NO)?.id, 'yes');
+  });
+
+  it('matches a unique word of the title', () => {
+    assert.equal(matchOptionByTitle('premium', PLANS)?.id, 'premium');
+  });
+
+  it('does not match a word that only starts with the title', () => {
+    assert.equal(matchOptionByTitle('quero algo mais simples', YES_NO), null);
+  });
+
+  it('does not match the title in the middle of a long sentence', () => {
+    assert.equal(matchOptionByTitle('talvez eu diga sim', YES_NO), null);
+  });
+
+  it('does not match when the text mentions more than one option', () => {
+    assert.equal(matchOptionByTitle('não sei se sim', YES_NO), null);
+  });
+
+  it('returns null when the word matches more than one title', () => {
+    assert.equal(matchOptionByTitle('plano', PLANS), null);
+  });
+
+  it('tolerates small typos in longer titles', () => {
+    assert.equal(matchOptionByTitle('agendar vizita', PLANS)?.id, 'visit');
+  });
+});
+
+describe('resolveSelectedOption', () => {
+  it('prefers the button payload', () => {
+    const selected = resolveSelectedOption({ content: 'Sim', selected_option_id: 'no' }, YES_NO);
+    assert.deepEqual(selected, { id: 'no', title: 'Não', source: 'payload' });
+  });
+
+  it('resolves the option number', () => {
+    const selected = resolveSelectedOption({ content: '2' }, PLANS);
+    assert.deepEqual(selected, { id: 'premium', title: 'Plano premium', source: 'number' });
+  });
+
+  it('does not report a selection for free text', () => {
+    assert.equal(resolveSelectedOption({ content: 'quero algo mais simples' }, YES_NO), null);
+  });
+});
@@ -0,0 +1,209 @@
+// src/services/button-replies.ts
+// Respostas a botões e listas do WhatsApp
+//
+// Toques em quick reply chegam com ButtonPayload/ButtonText e seleções de lista
+// com ListId/ListTitle. Quando o cliente digita em vez de tocar, a opção é
+// reconhecida pelo número ("2") ou pelo título (com tolerância a erros de digitação).
+
+import type { QuickReplyButton } from '../lib/supabase.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface InteractiveReply {
+  kind: 'button' | 'list';
+  option_id: string;
+  option_title?: string;
+  replied_message_sid?: string;
+}
+
+export interface ResolvedOption {
+  id: string;
+  title: string;
+  source: 'payload' | 'number' | 'title';
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const MAX_TYPO_DISTANCE = 2;
+const MIN_TITLE_LENGTH_FOR_TYPOS = 5;
+// Texto que contém o título no meio da frase só vale como seleção se for curto
+// ("acho que sim"); frases longas ("nao sei se sim") ficam para o agente interpretar
+const MAX_WORDS_FOR_PARTIAL_MATCH = 3;
+
+// =============================================================================
+// WEBHOOK
+// =============================================================================
+
+/**
+ * Extrai a seleção de botão/lista dos campos do webhook do Twilio
+ */
+export function parseInteractiveReply(body: {
+  ButtonPayload?: string;
+  ButtonText?: string;
+  ListId?: string;
+  ListTitle?: string;
+  OriginalRepliedMessageSid?: string;
+}): InteractiveReply | null {
+  if (body.ListId) {
+    return {
+      kind: 'list',
+      option_id: body.ListId,
+      option_title: body.ListTitle,
+      replied_message_sid: body.OriginalRepliedMessageSid,
+    };
+  }
+
+  if (body.ButtonPayload || body.ButtonText) {
+    return {
+      kind: 'button',
+      // Templates sem payload definido mandam só o ButtonText
+      option_id: body.ButtonPayload || body.ButtonText!,
+      option_title: body.ButtonText,
+      replied_message_sid: body.OriginalRepliedMessageSid,
+    };
+  }
+
+  return null;
+}
+
+// =============================================================================
+// RESOLUÇÃO
+// =============================================================================
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return text ? text.split(' ') : [];
+}
+
+// Posição da sequência de palavras needle dentro de haystack (-1 se não contém)
+function indexOfWords(haystack: string[], needle: string[]): number {
+  if (needle.length === 0 || needle.length > haystack.length) return -1;
+
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word)) return i;
+  }
+  return -1;
+}
+
+// Texto e título se sobrepõem em palavras inteiras ("sim" não casa com "simples")
+function mentionsTitle(typed: string[], title: string[]): boolean {
+  return indexOfWords(title, typed) !== -1 || indexOfWords(typed, title) !== -1;
+}
+
+/**
+ * Match parcial por palavras inteiras
+ * - texto contido no título: "basico" → "Plano basico"
+ * - título contido no texto: só se o texto começa com o título ou é curto
+ */
+function isPartialMatch(typed: string[], title: string[]): boolean {
+  if (indexOfWords(title, typed) !== -1) return true;
+
+  const position = indexOfWords(typed, title);
+  return position === 0 || (position > 0 && typed.length <= MAX_WORDS_FOR_PARTIAL_MATCH);
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Encontra a opção pelo título digitado
+ * Ordem: igual → único título que contém/está contido (palavras inteiras) → erro de digitação pequeno
+ */
+export function matchOptionByTitle(text: string, options: QuickReplyButton[]): QuickReplyButton | null {
+  const typed = normalize(text);
+  if (!typed) return null;
+
+  const normalized = options.map(option => ({ option, title: normalize(option.title) }));
+
+  const exact = normalized.find(o => o.title === typed);
+  if (exact) return exact.option;
+
+  // Mais de uma opção citada ("nao sei se sim"): ambíguo, deixa o agente interpretar
+  const typedWords = tokenize(typed);
+  const mentioned = normalized.filter(o => mentionsTitle(typedWords, tokenize(o.title)));
+  if (mentioned.length === 1 && isPartialMatch(typedWords, tokenize(mentioned[0].title))) {
+    return mentioned[0].option;
+  }
+
+  if (typed.length >= MIN_TITLE_LENGTH_FOR_TYPOS) {
+    const close = normalized
+      .map(o => ({ ...o, distance: levenshtein(typed, o.title) }))
+      .filter(o => o.distance <= MAX_TYPO_DISTANCE)
+      .sort((a, b) => a.distance - b.distance);
+
+    // Empate entre opções: ambíguo, deixa o agente interpretar
+    if (close.length === 1 || (close.length > 1 && close[0].distance < close[1].distance)) {
+      return close[0].option;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve qual opção o cliente escolheu
+ */
+export function resolveSelectedOption(
+  message: { content?: string | null; selected_option_id?: string | null; metadata?: Record<string, any> | null },
+  options: QuickReplyButton[] | null
+): ResolvedOption | null {
+  // 1. Toque real no botão/lista (payload do Twilio)
+  if (message.selected_option_id) {
+    const option = options?.find(o => o.id === message.selected_option_id);
+    const title = option?.title || message.metadata?.interactive_reply?.option_title || message.content || '';
+    return { id: message.selected_option_id, title, source: 'payload' };
+  }
+
+  if (!options || options.length === 0) return null;
+
+  const content = (message.content || '').trim();
+
+  // 2. Número da opção ("2")
+  if (/^\d{1,2}$/.test(content)) {
+    const option = options[parseInt(content) - 1];
+    if (option) return { id: option.id, title: option.title, source: 'number' };
+  }
+
+  // 3. Título digitado
+  const byTitle = matchOptionByTitle(content, options);
+  if (byTitle) return { id: byTitle.id, title: byTitle.title, source: 'title' };
+
+  return null;
+}
+
+/**
+ * Texto estruturado da seleção para o agente
+ */
+export function describeSelectedOption(option: ResolvedOption): string {
+  return `[Cliente selecionou a opcao "${option.title}" (id: ${option.id})]`;
+}
@@ -0,0 +1,279 @@
+// src/services/contact-memory.ts
+// Memória estruturada do contato: fatos, objeções e qualificação
+//
+// O schema de qualificação é configurável por organização em
+// config_values.qualification_schema da integração claude-ai: um preset
+// ('bant', 'travel') ou uma lista de campos próprios.
+
+import { supabase } from '../lib/supabase.js';
+import { isValidDateOnly } from '../lib/dates.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface ContactMemories {
+  name_confirmed?: boolean;
+  name_asked?: boolean;
+  original_whatsapp_name?: string;
+  facts?: string[];
+  objections?: string[];
+  qualification?: Record<string, any>;
+}
+
+export interface QualificationField {
+  key: string;
+  label: string;
+  type?: 'string' | 'number' | 'boolean' | 'date' | 'enum';
+  options?: string[]; // apenas para enum
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const MAX_FACTS = 30;
+const MAX_OBJECTIONS = 15;
+const MAX_ITEM_LENGTH = 300;
+const SUMMARY_FACTS = 10; // fatos mais recentes no prompt
+
+export const QUALIFICATION_PRESETS: Record<string, QualificationField[]> = {
+  bant: [
+    { key: 'budget', label: 'Orcamento' },
+    { key: 'authority', label: 'Decisor' },
+    { key: 'need', label: 'Necessidade' },
+    { key: 'timeline', label: 'Prazo' },
+  ],
+  travel: [
+    { key: 'destination', label: 'Destino' },
+    { key: 'departure_date', label: 'Data de ida', type: 'date' },
+    { key: 'return_date', label: 'Data de volta', type: 'date' },
+    { key: 'travelers', label: 'Numero de viajantes', type: 'number' },
+    { key: 'budget', label: 'Orcamento' },
+  ],
+};
+
+// =============================================================================
+// SCHEMA DE QUALIFICAÇÃO
+// =============================================================================
+
+/**
+ * Schema de qualificação a partir do config_values da integração claude-ai
+ */
+export function getQualificationSchema(
+  claudeConfig: Record<string, unknown> | null | undefined
+): QualificationField[] {
+  const schema = claudeConfig?.qualification_schema;
+
+  if (typeof schema === 'string') {
+    return QUALIFICATION_PRESETS[schema] || [];
+  }
+
+  if (Array.isArray(schema)) {
+    return schema.filter(
+      (f): f is QualificationField => typeof f?.key === 'string' && typeof f?.label === 'string'
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Busca o schema de qualificação da organização
+ */
+export async function getOrganizationQualificationSchema(organizationId: string): Promise<QualificationField[]> {
+  const { data } = await supabase
+    .from('organization_integrations')
+    .select(`
+      config_values,
+      admin_integrations!inner(slug)
+    `)
+    .eq('organization_id', organizationId)
+    .eq('admin_integrations.slug', 'claude-ai')
+    .eq('is_enabled', true)
+    .single();
+
+  return getQualificationSchema(data?.config_values as Record<string, unknown> | null);
+}
+
+/**
+ * Valida e normaliza uma resposta de qualificação conforme o tipo do campo
+ */
+function normalizeAnswer(field: QualificationField, value: unknown): { value?: unknown; error?: string } {
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+      if (typeof number !== 'number' || Number.isNaN(number)) {
+        return { error: `${field.key} deve ser numero` };
+      }
+      return { value: number };
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') return { error: `${field.key} deve ser true/false` };
+      return { value };
+    case 'date':
+      if (!isValidDateOnly(value)) {
+        return { error: `${field.key} deve estar no formato YYYY-MM-DD` };
+      }
+      return { value };
+    case 'enum':
+      if (!field.options?.includes(String(value))) {
+        return { error: `${field.key} deve ser um de: ${(field.options || []).join(', ')}` };
+      }
+      return { value: String(value) };
+    default:
+      if (value === null || value === undefined || String(value).trim() === '') {
+        return { error: `${field.key} vazio` };
+      }
+      return { value: String(value).trim().substring(0, MAX_ITEM_LENGTH) };
+  }
+}
+
+// =============================================================================
+// ESCRITA
+// =============================================================================
+
+async function getMemories(contactId: string): Promise<ContactMemories | null> {
+  const { data } = await supabase
+    .from('contact_memories')
+    .select('facts, objections, qualification')
+    .eq('contact_id', contactId)
+    .single();
+
+  return data as ContactMemories | null;
+}
+
+async function saveMemories(
+  organizationId: string,
+  contactId: string,
+  update: Partial<ContactMemories>
+): Promise<void> {
+  const { error } = await supabase
+    .from('contact_memories')
+    .upsert({
+      organization_id: organizationId,
+      contact_id: contactId,
+      ...update,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'contact_id',
+    });
+
+  if (error) {
+    throw new Error(`Failed to save contact memories: ${error.message}`);
+  }
+}
+
+/**
+ * Adiciona um item a uma lista (sem duplicatas, mantendo os mais recentes)
+ */
+function appendUnique(list: string[] | undefined, item: string, max: number): string[] {
+  const text = item.trim().substring(0, MAX_ITEM_LENGTH);
+  const existing = (list || []).filter(i => i.toLowerCase() !== text.toLowerCase());
+  return [...existing, text].slice(-max);
+}
+
+/**
+ * Registra um fato relevante sobre o contato
+ */
+export async function recordFact(organizationId: string, contactId: string, fact: string): Promise<string[]> {
+  const memories = await getMemories(contactId);
+  const facts = appendUnique(memories?.facts, fact, MAX_FACTS);
+  await saveMemories(organizationId, contactId, { facts });
+  return facts;
+}
+
+/**
+ * Registra (ou remove, quando superada) uma objeção do contato
+ */
+export async function recordObjection(
+  organizationId: string,
+  contactId: string,
+  objection: string,
+  resolved: boolean = false
+): Promise<string[]> {
+  const memories = await getMemories(contactId);
+  const objections = resolved
+    ? (memories?.objections || []).filter(o => o.toLowerCase() !== objection.trim().toLowerCase())
+    : appendUnique(memories?.objections, objection, MAX_OBJECTIONS);
+  await saveMemories(organizationId, contactId, { objections });
+  return objections;
+}
+
+/**
+ * Salva respostas de qualificação validadas contra o schema da organização
+ * Retorna as chaves rejeitadas com o motivo
+ */
+export async function recordQualification(
+  organizationId: string,
+  contactId: string,
+  answers: Record<string, unknown>,
+  schema: QualificationField[]
+): Promise<{ qualification: Record<string, any>; rejected: string[] }> {
+  const accepted: Record<string, unknown> = {};
+  const rejected: string[] = [];
+
+  for (const [key, value] of Object.entries(answers)) {
+    const field = schema.find(f => f.key === key);
+    if (!field) {
+      rejected.push(`${key} nao faz parte da qualificacao`);
+      continue;
+    }
+
+    const normalized = normalizeAnswer(field, value);
+    if (normalized.error) {
+      rejected.push(normalized.error);
+    } else {
+      accepted[key] = normalized.value;
+    }
+  }
+
+  const memories = await getMemories(contactId);
+  const qualification = { ...(memories?.qualification || {}), ...accepted };
+
+  if (Object.keys(accepted).length > 0) {
+    await saveMemories(organizationId, contactId, { qualification });
+  }
+
+  return { qualification, rejected };
+}
+
+// =============================================================================
+// RESUMO PARA O PROMPT
+// =============================================================================
+
+/**
+ * Resumo compacto da memória do contato para o system prompt
+ * Retorna string vazia quando não há nada a mostrar
+ */
+export function buildMemorySummary(
+  memories: ContactMemories | null,
+  schema: QualificationField[]
+): string {
+  const lines: string[] = [];
+
+  const facts = (memories?.facts || []).slice(-SUMMARY_FACTS);
+  if (facts.length > 0) {
+    lines.push(`- Fatos: ${facts.join('; ')}`);
+  }
+
+  const objections = memories?.objections || [];
+  if (objections.length > 0) {
+    lines.push(`- Objecoes em aberto: ${objections.join('; ')}`);
+  }
+
+  if (schema.length > 0) {
+    const qualification = memories?.qualification || {};
+    const answered = schema.filter(f => qualification[f.key] !== undefined && qualification[f.key] !== null);
+    const pending = schema.filter(f => !answered.includes(f));
+
+    if (answered.length > 0) {
+      lines.push(`- Qualificacao: ${answered.map(f => `${f.label}: ${qualification[f.key]}`).join('; ')}`);
+    }
+    if (pending.length > 0) {
+      lines.push(`- Qualificacao pendente (descubra naturalmente, sem interrogatorio): ${pending.map(f => `${f.label} (${f.key})`).join(', ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
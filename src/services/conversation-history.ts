@@ -0,0 +1,234 @@
+// src/services/conversation-history.ts
+// Histórico da conversa dentro de um orçamento de tokens + resumo contínuo
+//
+// Pega as mensagens mais recentes que cabem no orçamento do agente. O que fica de
+// fora entra no resumo da thread (message_threads.history_summary), atualizado em
+// lotes e injetado no system prompt, para o agente não "esquecer" o começo da conversa.
+
+import Anthropic from '@anthropic-ai/sdk';
+import { supabase } from '../lib/supabase.js';
+import { recordAnthropicUsage } from './usage.js';
+import { withTranscription } from './transcription.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface HistoryMessage {
+  id: string;
+  content: string | null;
+  direction: string;
+  sender_type: string | null;
+  media_type: string | null;
+  transcription: string | null; // texto dos áudios
+  created_at: string;
+}
+
+export interface ConversationHistory {
+  messages: HistoryMessage[]; // ordem cronológica
+  summary: string | null;
+  estimatedTokens: number;
+  droppedCount: number; // mensagens buscadas que não couberam no orçamento
+}
+
+interface BuildHistoryOptions {
+  anthropic: Anthropic;
+  threadId: string;
+  organizationId: string;
+  agentId?: string;
+  maxMessages: number;
+  tokenBudget: number;
+  pendingMessageIds?: string[]; // batch atual (vai como mensagem atual, fora do orçamento)
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const SUMMARY_MODEL = 'claude-3-5-haiku-20241022';
+const SUMMARY_MAX_TOKENS = 600;
+const SUMMARY_MIN_NEW_MESSAGES = 6; // resume em lotes, não a cada turno
+const SUMMARY_MAX_MESSAGES_PER_RUN = 100; // threads muito longas são resumidas em várias passadas
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4; // overhead de role/estrutura
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Estimativa de tokens (aprox. 4 caracteres por token)
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+}
+
+type MessageText = Pick<HistoryMessage, 'content'> & Partial<Pick<HistoryMessage, 'transcription'>>;
+
+function estimateMessageTokens(message: MessageText): number {
+  return estimateTokens(withTranscription(message.content, message.transcription)) + TOKENS_PER_MESSAGE;
+}
+
+/**
+ * Mantém as mensagens mais recentes que cabem no orçamento
+ * Recebe e retorna em ordem cronológica; a mais recente sempre entra
+ */
+export function fitToTokenBudget<T extends MessageText>(
+  messages: T[],
+  tokenBudget: number
+): { kept: T[]; dropped: T[]; tokens: number } {
+  let tokens = 0;
+  let start = messages.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateMessageTokens(messages[i]);
+    if (start < messages.length && tokens + cost > tokenBudget) break;
+    tokens += cost;
+    start = i;
+  }
+
+  return { kept: messages.slice(start), dropped: messages.slice(0, start), tokens };
+}
+
+const TRANSCRIPT_SPEAKERS: Record<string, string> = {
+  contact: 'Cliente',
+  agent: 'Assistente',
+  user: 'Atendente',
+};
+
+function formatTranscript(messages: HistoryMessage[]): string {
+  return messages
+    .map(m => ({ message: m, text: withTranscription(m.content, m.transcription).trim() }))
+    .filter(({ text }) => text !== '')
+    .map(({ message, text }) => {
+      const speaker = message.direction === 'internal'
+        ? 'Nota interna'
+        : TRANSCRIPT_SPEAKERS[message.sender_type || ''] || (message.direction === 'inbound' ? 'Cliente' : 'Empresa');
+      return `${speaker}: ${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Atualiza o resumo da thread com as mensagens anteriores à janela do histórico
+ * Só roda quando há SUMMARY_MIN_NEW_MESSAGES ainda não resumidas
+ */
+async function updateRollingSummary(
+  anthropic: Anthropic,
+  threadId: string,
+  organizationId: string,
+  agentId: string | undefined,
+  thread: { history_summary: string | null; history_summarized_until: string | null },
+  windowStart: string
+): Promise<string | null> {
+  let query = supabase
+    .from('messages')
+    .select('id, content, direction, sender_type, media_type, transcription, created_at')
+    .eq('thread_id', threadId)
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .lt('created_at', windowStart)
+    .order('created_at', { ascending: true })
+    .limit(SUMMARY_MAX_MESSAGES_PER_RUN);
+
+  if (thread.history_summarized_until) {
+    query = query.gt('created_at', thread.history_summarized_until);
+  }
+
+  const { data: pending } = await query;
+  if (!pending || pending.length < SUMMARY_MIN_NEW_MESSAGES) {
+    return thread.history_summary;
+  }
+
+  const transcript = formatTranscript(pending);
+  const summarizedUntil = pending[pending.length - 1].created_at;
+  let summary = thread.history_summary;
+
+  if (transcript) {
+    const response = await anthropic.messages.create({
+      model: SUMMARY_MODEL,
+      max_tokens: SUMMARY_MAX_TOKENS,
+      system: `Voce resume conversas de WhatsApp entre um cliente e uma empresa para o atendente que vai continuar a conversa.
+Mantenha: necessidades e interesses do cliente, produtos citados, valores, datas, decisoes, pendencias e combinados.
+Descarte cumprimentos e conversa fiada. Escreva em portugues, em topicos curtos, no maximo 15 linhas.`,
+      messages: [{
+        role: 'user',
+        content: `${summary ? `Resumo ate agora:\n${summary}\n\n` : ''}Novas mensagens:\n${transcript}\n\nEscreva o resumo atualizado da conversa inteira.`,
+      }],
+    });
+    await recordAnthropicUsage({ organizationId, agentId, threadId }, response, 'summary');
+
+    const textBlock = response.content.find(
+      (block): block is Anthropic.TextBlock => block.type === 'text'
+    );
+    summary = textBlock?.text.trim() || summary;
+  }
+
+  const { error } = await supabase
+    .from('message_threads')
+    .update({
+      history_summary: summary,
+      history_summarized_until: summarizedUntil,
+      history_summary_updated_at: new Date().toISOString(),
+    })
+    .eq('id', threadId)
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    console.error('❌ Failed to save history summary:', error);
+  } else {
+    console.log(`📝 History summary updated (${pending.length} messages folded in)`);
+  }
+
+  return summary;
+}
+
+/**
+ * Monta o histórico da thread: mensagens recentes no orçamento + resumo das anteriores
+ */
+export async function buildConversationHistory(options: BuildHistoryOptions): Promise<ConversationHistory> {
+  const { anthropic, threadId, organizationId, agentId, maxMessages, tokenBudget } = options;
+  const pending = new Set(options.pendingMessageIds || []);
+
+  const [recentResult, threadResult] = await Promise.all([
+    supabase
+      .from('messages')
+      .select('id, content, direction, sender_type, media_type, transcription, created_at')
+      .eq('thread_id', threadId)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(maxMessages + pending.size),
+    supabase
+      .from('message_threads')
+      .select('history_summary, history_summarized_until')
+      .eq('id', threadId)
+      .eq('organization_id', organizationId)
+      .single(),
+  ]);
+
+  // Batch atual já chega combinado como mensagem atual: não ocupa o orçamento do histórico
+  const fetched = (recentResult.data || []) as HistoryMessage[];
+  const recent = fetched.filter(m => !pending.has(m.id)).reverse();
+  const { kept, dropped, tokens } = fitToTokenBudget(recent, tokenBudget);
+
+  const thread = threadResult.data || { history_summary: null, history_summarized_until: null };
+  let summary: string | null = thread.history_summary;
+
+  // Há mensagens fora da janela: atualiza o resumo (falha não impede a resposta)
+  const windowStart = kept[0]?.created_at;
+  const hasOlderMessages = dropped.length > 0 || fetched.length >= maxMessages + pending.size;
+  if (windowStart && hasOlderMessages) {
+    try {
+      summary = await updateRollingSummary(anthropic, threadId, organizationId, agentId, thread, windowStart);
+    } catch (error) {
+      console.error('❌ History summary failed, using previous summary:', error);
+    }
+  }
+
+  if (dropped.length > 0) {
+    console.log(`✂️ History: ${kept.length} messages (~${tokens} tokens), ${dropped.length} over budget`);
+  }
+
+  return { messages: kept, summary, estimatedTokens: tokens, droppedCount: dropped.length };
+}
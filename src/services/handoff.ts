@@ -0,0 +1,168 @@
+// src/services/handoff.ts
+// Máquina de estados do handoff AI ↔ humano nas threads
+//
+//   ai_active ──transfer──▶ human_pending ──assume──▶ human_active
+//       ▲                        │                        │
+//       └──── return_to_ai / auto-return (timeout) ───────┘
+//   qualquer estado ──resolve──▶ resolved ──nova mensagem──▶ ai_active
+
+import { supabase, type HandoffStatus } from '../lib/supabase.js';
+import { env } from '../config/env.js';
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const ALLOWED_TRANSITIONS: Record<HandoffStatus, HandoffStatus[]> = {
+  ai_active: ['human_pending', 'human_active', 'resolved'],
+  human_pending: ['human_active', 'ai_active', 'resolved'],
+  human_active: ['ai_active', 'resolved'],
+  resolved: ['ai_active', 'human_pending', 'human_active'],
+};
+
+const HUMAN_STATUSES: HandoffStatus[] = ['human_pending', 'human_active'];
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Verifica se a AI deve ficar em silêncio (um humano é dono da thread)
+ */
+export function isAIPaused(status: HandoffStatus | null | undefined): boolean {
+  return !!status && HUMAN_STATUSES.includes(status);
+}
+
+/**
+ * Erro de transição inválida (ex: resolved → resolved)
+ */
+export class InvalidHandoffTransitionError extends Error {
+  constructor(readonly from: HandoffStatus, readonly to: HandoffStatus) {
+    super(`Invalid handoff transition: ${from} → ${to}`);
+    this.name = 'InvalidHandoffTransitionError';
+  }
+}
+
+/**
+ * Aplica uma transição de handoff na thread
+ * Mantém needs_human_attention sincronizado para o CRM
+ */
+export async function transitionHandoff(
+  threadId: string,
+  organizationId: string,
+  to: HandoffStatus,
+  options: { reason?: string; userId?: string } = {}
+): Promise<{ from: HandoffStatus; to: HandoffStatus }> {
+  const { data: thread, error } = await supabase
+    .from('message_threads')
+    .select('id, handoff_status')
+    .eq('id', threadId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (error || !thread) {
+    throw new Error('Thread not found');
+  }
+
+  const from = (thread.handoff_status || 'ai_active') as HandoffStatus;
+
+  if (from !== to && !ALLOWED_TRANSITIONS[from].includes(to)) {
+    throw new InvalidHandoffTransitionError(from, to);
+  }
+
+  const now = new Date().toISOString();
+  const update: Record<string, unknown> = {
+    handoff_status: to,
+    handoff_updated_at: now,
+    needs_human_attention: isAIPaused(to),
+    updated_at: now,
+  };
+
+  if (to === 'human_pending') {
+    update.handoff_reason = options.reason || null;
+  }
+  if (to === 'human_active' && options.userId) {
+    update.handoff_user_id = options.userId;
+  }
+  if (to === 'ai_active') {
+    update.handoff_reason = null;
+    update.handoff_user_id = null;
+  }
+
+  const { error: updateError } = await supabase
+    .from('message_threads')
+    .update(update)
+    .eq('id', threadId)
+    .eq('organization_id', organizationId);
+
+  if (updateError) {
+    throw new Error(`Failed to update handoff status: ${updateError.message}`);
+  }
+
+  console.log(`🤝 Handoff ${threadId}: ${from} → ${to}${options.reason ? ` (${options.reason})` : ''}`);
+  return { from, to };
+}
+
+/**
+ * Registra atividade do atendente humano (adia o auto-return)
+ * Uma thread human_pending passa para human_active quando o humano responde
+ */
+export async function recordHumanActivity(
+  threadId: string,
+  organizationId: string,
+  userId: string
+): Promise<void> {
+  const { data: thread } = await supabase
+    .from('message_threads')
+    .select('handoff_status')
+    .eq('id', threadId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  const status = (thread?.handoff_status || 'ai_active') as HandoffStatus;
+
+  if (status === 'human_active') {
+    await supabase
+      .from('message_threads')
+      .update({ handoff_updated_at: new Date().toISOString() })
+      .eq('id', threadId)
+      .eq('organization_id', organizationId);
+    return;
+  }
+
+  await transitionHandoff(threadId, organizationId, 'human_active', { userId });
+}
+
+/**
+ * Devolve para a AI threads sem atividade humana há mais de HANDOFF_AUTO_RETURN_HOURS
+ */
+export async function autoReturnStaleHandoffs(
+  timeoutHours: number = env.HANDOFF_AUTO_RETURN_HOURS
+): Promise<number> {
+  if (!timeoutHours || timeoutHours <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - timeoutHours * 60 * 60 * 1000).toISOString();
+
+  const { data: staleThreads, error } = await supabase
+    .from('message_threads')
+    .update({
+      handoff_status: 'ai_active',
+      handoff_updated_at: new Date().toISOString(),
+      handoff_reason: null,
+      handoff_user_id: null,
+      needs_human_attention: false,
+    })
+    .in('handoff_status', HUMAN_STATUSES)
+    .lt('handoff_updated_at', cutoff)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to auto-return handoffs: ${error.message}`);
+  }
+
+  const count = staleThreads?.length || 0;
+  if (count > 0) {
+    console.log(`🤖 Auto-returned ${count} thread(s) to AI after ${timeoutHours}h without human activity`);
+  }
+  return count;
+}
@@ -0,0 +1,149 @@
+import '../testing/setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assembleHistory,
+  mergeConsecutiveRoles,
+  HUMAN_AGENT_PREFIX,
+  MAX_INTERNAL_NOTES,
+} from './history-assembly.js';
+import { TRANSCRIPTION_LABEL } from './transcription.js';
+import type { HistoryMessage } from './conversation-history.js';
+
+let sequence = 0;
+
+function message(direction: string, content: string, extra: Partial<HistoryMessage> = {}): HistoryMessage {
+  sequence++;
+  return {
+    id: `msg-${sequence}`,
+    content,
+    direction,
+    sender_type: direction === 'inbound' ? 'contact' : 'agent',
+    media_type: null,
+    transcription: null,
+    created_at: new Date(Date.UTC(2026, 0, 1, 12, sequence)).toISOString(),
+    ...extra,
+  };
+}
+
+describe('assembleHistory', () => {
+  it('keeps internal notes out of the turns', () => {
+    const { messages, internalNotes } = assembleHistory([
+      message('inbound', 'Oi'),
+      message('internal', 'Cliente VIP, priorizar'),
+      message('outbound', 'Olá! Como posso ajudar?'),
+    ]);
+
+    assert.deepEqual(messages, [
+      { role: 'user', content: 'Oi' },
+      { role: 'assistant', content: 'Olá! Como posso ajudar?' },
+    ]);
+    assert.deepEqual(internalNotes, ['Cliente VIP, priorizar']);
+  });
+
+  it('keeps only the most recent internal notes', () => {
+    const notes = Array.from({ length: MAX_INTERNAL_NOTES + 2 }, (_, i) => message('internal', `nota ${i + 1}`));
+    const { internalNotes } = assembleHistory([message('inbound', 'Oi'), ...notes]);
+
+    assert.equal(internalNotes.length, MAX_INTERNAL_NOTES);
+    assert.equal(internalNotes[0], 'nota 3');
+    assert.equal(internalNotes[MAX_INTERNAL_NOTES - 1], `nota ${MAX_INTERNAL_NOTES + 2}`);
+  });
+
+  it('drops the pending batch from the history and appends the current message once', () => {
+    const first = message('inbound', 'Quero um visto');
+    const second = message('inbound', 'para os EUA');
+    const { messages } = assembleHistory(
+      [message('inbound', 'Oi'), message('outbound', 'Olá!'), first, second],
+      { pendingMessageIds: [first.id, second.id], current: 'Quero um visto\npara os EUA' }
+    );
+
+    assert.deepEqual(messages, [
+      { role: 'user', content: 'Oi' },
+      { role: 'assistant', content: 'Olá!' },
+      { role: 'user', content: 'Quero um visto\npara os EUA' },
+    ]);
+  });
+
+  it('marks messages sent by human agents', () => {
+    const { messages } = assembleHistory([
+      message('inbound', 'Oi'),
+      message('outbound', 'Aqui é a Júlia da equipe', { sender_type: 'user' }),
+    ]);
+
+    assert.equal(messages[1].content, `${HUMAN_AGENT_PREFIX} Aqui é a Júlia da equipe`);
+  });
+
+  it('starts with a placeholder user turn when the history starts with the assistant', () => {
+    const { messages } = assembleHistory([message('outbound', 'Olá! Vi que você se interessou pelo visto')], {
+      current: 'Sim, quero saber o preço',
+    });
+
+    assert.equal(messages[0].role, 'user');
+    assert.equal(messages[1].role, 'assistant');
+    assert.equal(messages[2].content, 'Sim, quero saber o preço');
+  });
+
+  it('uses a placeholder for images from previous messages', () => {
+    const { messages } = assembleHistory([message('inbound', '', { media_type: 'image' })]);
+    assert.equal(messages.length, 1);
+    assert.match(messages[0].content as string, /Imagem/);
+  });
+
+  it('uses the transcription as the content of previous audio messages', () => {
+    const { messages } = assembleHistory([
+      message('inbound', '', { media_type: 'audio', transcription: 'Quanto custa o visto de turismo?' }),
+      message('outbound', 'O visto de turismo custa R$ 950.'),
+    ]);
+
+    assert.deepEqual(messages, [
+      { role: 'user', content: `${TRANSCRIPTION_LABEL}: Quanto custa o visto de turismo?` },
+      { role: 'assistant', content: 'O visto de turismo custa R$ 950.' },
+    ]);
+  });
+});
+
+describe('mergeConsecutiveRoles', () => {
+  it('merges consecutive string turns with a line break', () => {
+    const merged = mergeConsecutiveRoles([
+      { role: 'user', content: 'Oi' },
+      { role: 'user', content: 'Tudo bem?' },
+      { role: 'assistant', content: 'Tudo!' },
+    ]);
+
+    assert.deepEqual(merged, [
+      { role: 'user', content: 'Oi\nTudo bem?' },
+      { role: 'assistant', content: 'Tudo!' },
+    ]);
+  });
+
+  it('merges string and block content into blocks', () => {
+    const image = { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/png' as const, data: 'iVBORw0KGgo=' } };
+    const merged = mergeConsecutiveRoles([
+      { role: 'user', content: 'Segue o documento' },
+      { role: 'user', content: [image, { type: 'text', text: 'Serve?' }] },
+    ]);
+
+    assert.deepEqual(merged, [{
+      role: 'user',
+      content: [{ type: 'text', text: 'Segue o documento' }, image, { type: 'text', text: 'Serve?' }],
+    }]);
+  });
+
+  it('skips empty turns', () => {
+    const merged = mergeConsecutiveRoles([
+      { role: 'user', content: 'Oi' },
+      { role: 'assistant', content: '   ' },
+      { role: 'user', content: [] },
+      { role: 'user', content: 'Alguém?' },
+    ]);
+
+    assert.deepEqual(merged, [{ role: 'user', content: 'Oi\nAlguém?' }]);
+  });
+
+  it('does not mutate the input turns', () => {
+    const input = [{ role: 'user' as const, content: 'Oi' }, { role: 'user' as const, content: 'Olá' }];
+    mergeConsecutiveRoles(input);
+    assert.equal(input[0].content, 'Oi');
+  });
+});
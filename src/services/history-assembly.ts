@@ -0,0 +1,122 @@
+// src/services/history-assembly.ts
+// Monta as mensagens enviadas à Anthropic a partir do histórico da thread
+//
+// - Notas internas (direction 'internal') não viram turnos: entram como contexto no system prompt
+// - Áudios entram pela transcrição (messages.transcription)
+// - Mensagens de atendentes humanos são marcadas para o agente não achar que foi ele quem disse
+// - Mensagens do batch atual saem do histórico (já chegam combinadas como mensagem atual)
+// - Turnos consecutivos do mesmo papel são unidos e a conversa sempre começa com 'user'
+
+import Anthropic from '@anthropic-ai/sdk';
+import { withImagePlaceholder } from './vision.js';
+import { withTranscription } from './transcription.js';
+import type { HistoryMessage } from './conversation-history.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export type MessageContent = Anthropic.MessageParam['content'];
+type ContentBlocks = Exclude<MessageContent, string>;
+
+export interface AssembledHistory {
+  messages: Anthropic.MessageParam[];
+  internalNotes: string[]; // mais recentes por último
+}
+
+interface AssembleHistoryOptions {
+  pendingMessageIds?: string[]; // batch atual (não repetir no histórico)
+  current?: MessageContent; // mensagem atual do cliente / instrução de follow-up
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+export const HUMAN_AGENT_PREFIX = '[Atendente humano]';
+const CONVERSATION_START_PLACEHOLDER = '[Inicio da conversa]';
+export const MAX_INTERNAL_NOTES = 5;
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Papel de uma mensagem do histórico (null = não é turno da conversa)
+ */
+export function getHistoryRole(message: Pick<HistoryMessage, 'direction'>): 'user' | 'assistant' | null {
+  if (message.direction === 'inbound') return 'user';
+  if (message.direction === 'outbound') return 'assistant';
+  return null;
+}
+
+function toTextBlocks(content: MessageContent): ContentBlocks {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+function isEmptyContent(content: MessageContent): boolean {
+  return typeof content === 'string' ? content.trim() === '' : content.length === 0;
+}
+
+/**
+ * Une turnos consecutivos do mesmo papel (a API exige alternância)
+ */
+export function mergeConsecutiveRoles(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  const merged: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (isEmptyContent(message.content)) continue;
+
+    const last = merged[merged.length - 1];
+    if (!last || last.role !== message.role) {
+      merged.push({ ...message });
+      continue;
+    }
+
+    last.content = typeof last.content === 'string' && typeof message.content === 'string'
+      ? `${last.content}\n${message.content}`
+      : [...toTextBlocks(last.content), ...toTextBlocks(message.content)];
+  }
+
+  return merged;
+}
+
+/**
+ * Converte o histórico (ordem cronológica) nas mensagens da Anthropic
+ */
+export function assembleHistory(history: HistoryMessage[], options: AssembleHistoryOptions = {}): AssembledHistory {
+  const pending = new Set(options.pendingMessageIds || []);
+  const turns: Anthropic.MessageParam[] = [];
+  const internalNotes: string[] = [];
+
+  for (const message of history) {
+    if (pending.has(message.id)) continue;
+
+    const role = getHistoryRole(message);
+    if (!role) {
+      if (message.content?.trim()) internalNotes.push(message.content.trim());
+      continue;
+    }
+
+    let content = withImagePlaceholder(withTranscription(message.content, message.transcription), message.media_type).trim();
+    if (!content) continue;
+
+    if (role === 'assistant' && message.sender_type === 'user') {
+      content = `${HUMAN_AGENT_PREFIX} ${content}`;
+    }
+
+    turns.push({ role, content });
+  }
+
+  if (options.current && !isEmptyContent(options.current)) {
+    turns.push({ role: 'user', content: options.current });
+  }
+
+  const messages = mergeConsecutiveRoles(turns);
+
+  if (messages.length > 0 && messages[0].role === 'assistant') {
+    messages.unshift({ role: 'user', content: CONVERSATION_START_PLACEHOLDER });
+  }
+
+  return { messages, internalNotes: internalNotes.slice(-MAX_INTERNAL_NOTES) };
+}
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAgentInteractive, finalizeInteractiveReply } from './interactive-reply.js';
+import { WHATSAPP_LIMITS } from '../types/whatsapp-messages.js';
+
+// Conteúdo sem espaços: o que a divisão não pode perder
+function compact(text: string | string[]): string {
+  return (Array.isArray(text) ? text.join('') : text).replace(/\s+/g, '');
+}
+
+describe('finalizeInteractiveReply', () => {
+  const { interactive } = buildAgentInteractive({ type: 'quick_reply', options: ['Sim', 'Não'] });
+
+  it('uses a short reply as the body', () => {
+    const result = finalizeInteractiveReply(interactive!, 'Quer agendar uma conversa?');
+    assert.deepEqual(result?.leading, []);
+    assert.equal(result?.interactive.body, 'Quer agendar uma conversa?');
+  });
+
+  it('sends text beyond the body limit ahead instead of truncating it', () => {
+    const paragraph = 'Explicação longa sobre o processo do visto e os documentos necessários. '.repeat(10).trim();
+    const text = `${paragraph}\n\n${paragraph}\n\nQuer agendar uma conversa?`;
+    const result = finalizeInteractiveReply(interactive!, text);
+
+    assert.ok(result);
+    assert.ok(result.leading.length > 0);
+    assert.ok(result.interactive.body.length <= WHATSAPP_LIMITS.BODY_TEXT);
+    assert.ok(result.interactive.body.endsWith('Quer agendar uma conversa?'));
+    assert.equal(compact([...result.leading, result.interactive.body]), compact(text));
+  });
+});
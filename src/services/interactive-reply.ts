@@ -0,0 +1,130 @@
+// src/services/interactive-reply.ts
+// Respostas interativas do agente (botões, listas, CTAs)
+//
+// A tool reply_with_options define o formato da resposta do turno; o texto final
+// do modelo vira o body da mensagem (o excesso sai antes, como texto). As opções
+// passam por prepare* (truncamento) e validateInteractiveMessage; se ainda for
+// inválido, a resposta sai como texto.
+
+import {
+  validateInteractiveMessage,
+  prepareQuickReplyButtons,
+  prepareListSections,
+  prepareCTAButtons,
+  truncateText,
+  WHATSAPP_LIMITS,
+  type InteractiveMessage,
+  type CTAButton,
+} from '../types/whatsapp-messages.js';
+import { segmentResponse } from './response-segmenter.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export type AgentInteractiveType = 'quick_reply' | 'list' | 'cta';
+
+export interface AgentInteractiveInput {
+  type: AgentInteractiveType;
+  options?: string[]; // quick_reply / list: títulos das opções
+  list_button_text?: string;
+  links?: Array<{ title: string; url?: string; phone?: string }>; // cta
+  footer?: string;
+}
+
+// Body provisório para validar a estrutura antes do texto final existir
+const PLACEHOLDER_BODY = '-';
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Monta a mensagem interativa (sem body) a partir dos argumentos da tool
+ * Retorna os erros de validação para o modelo corrigir
+ */
+export function buildAgentInteractive(
+  input: AgentInteractiveInput
+): { interactive: InteractiveMessage | null; errors: string[] } {
+  const options = (input.options || []).map(o => String(o).trim()).filter(Boolean);
+  let interactive: InteractiveMessage;
+
+  switch (input.type) {
+    case 'quick_reply':
+      interactive = {
+        type: 'quick_reply',
+        body: PLACEHOLDER_BODY,
+        quickReplyButtons: prepareQuickReplyButtons(
+          options.map((title, index) => ({ id: `opt_${index + 1}`, title }))
+        ),
+      };
+      break;
+
+    case 'list':
+      interactive = {
+        type: 'list',
+        body: PLACEHOLDER_BODY,
+        listButtonText: truncateText(input.list_button_text || 'Ver opções', WHATSAPP_LIMITS.LIST_BUTTON_TEXT),
+        listSections: prepareListSections([{
+          rows: options.map((title, index) => ({ id: `opt_${index + 1}`, title })),
+        }]),
+      };
+      break;
+
+    case 'cta':
+      interactive = {
+        type: 'cta',
+        body: PLACEHOLDER_BODY,
+        ctaButtons: prepareCTAButtons(
+          (input.links || []).map((link): CTAButton => link.phone
+            ? { type: 'phone', title: link.title, phone: link.phone }
+            : { type: 'url', title: link.title, url: link.url })
+        ),
+      };
+      break;
+
+    default:
+      return { interactive: null, errors: [`Tipo invalido: ${input.type}. Use quick_reply, list ou cta`] };
+  }
+
+  if (input.footer) {
+    interactive.footer = truncateText(input.footer, WHATSAPP_LIMITS.FOOTER_TEXT);
+  }
+
+  if (options.length > WHATSAPP_LIMITS.QUICK_REPLY_MAX_BUTTONS && input.type === 'quick_reply') {
+    console.log(`⚠️ Quick reply with ${options.length} options truncated to ${WHATSAPP_LIMITS.QUICK_REPLY_MAX_BUTTONS}`);
+  }
+
+  const validation = validateInteractiveMessage(interactive);
+  if (!validation.valid) {
+    return { interactive: null, errors: validation.errors };
+  }
+
+  return { interactive, errors: [] };
+}
+
+/**
+ * Aplica o texto final como body e valida de novo
+ * Texto acima do limite de body não é cortado: o começo sai antes, em mensagens de
+ * texto (leading), e só o último trecho vai como body da interativa.
+ * Retorna null (envio como texto) se a mensagem ficar inválida
+ */
+export function finalizeInteractiveReply(
+  interactive: InteractiveMessage,
+  text: string
+): { leading: string[]; interactive: InteractiveMessage } | null {
+  const parts = segmentResponse(text, { maxChars: WHATSAPP_LIMITS.BODY_TEXT, maxSegments: 1 });
+  const message: InteractiveMessage = {
+    ...interactive,
+    body: parts[parts.length - 1] ?? '',
+  };
+
+  const validation = validateInteractiveMessage(message);
+  if (!validation.valid) {
+    console.warn('⚠️ Invalid interactive reply, falling back to text:', validation.errors);
+    return null;
+  }
+
+  return { leading: parts.slice(0, -1), interactive: message };
+}
+
@@ -0,0 +1,198 @@
+// src/services/media-storage.ts
+// Re-hospeda mídias recebidas do Twilio no Supabase Storage
+//
+// As URLs de mídia do Twilio exigem Basic Auth e expiram; aqui baixamos o arquivo
+// com as credenciais da organização e salvamos em um bucket privado por organização.
+
+import { supabase, type MediaAttachment, type MediaKind } from '../lib/supabase.js';
+import { env } from '../config/env.js';
+import type { TwilioWebhookConfig } from '../lib/twilio-signature.js';
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+const BUCKET_PREFIX = 'whatsapp-media';
+
+const EXTENSIONS_BY_CONTENT_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/3gpp': '3gp',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/amr': 'amr',
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/plain': 'txt',
+  'text/vcard': 'vcf',
+};
+
+// Buckets já verificados neste processo
+const ensuredBuckets = new Set<string>();
+
+// ===========================
+// HELPERS
+// ===========================
+
+/**
+ * Nome do bucket de mídia da organização
+ */
+export function getMediaBucketName(organizationId: string): string {
+  return `${BUCKET_PREFIX}-${organizationId}`;
+}
+
+/**
+ * Cria o bucket privado da organização se ainda não existir
+ */
+async function ensureMediaBucket(bucket: string): Promise<void> {
+  if (ensuredBuckets.has(bucket)) return;
+
+  const { data: existing } = await supabase.storage.getBucket(bucket);
+  if (!existing) {
+    const { error } = await supabase.storage.createBucket(bucket, { public: false });
+    // Outra execução pode ter criado o bucket ao mesmo tempo
+    if (error && !/already exists/i.test(error.message)) {
+      throw new Error(`Failed to create storage bucket ${bucket}: ${error.message}`);
+    }
+    console.log(`🪣 Created media bucket: ${bucket}`);
+  }
+
+  ensuredBuckets.add(bucket);
+}
+
+/**
+ * URL durável (autenticada) de um objeto no Storage
+ * Acessível pelo CRM com o JWT do usuário, conforme policies do bucket
+ */
+function getAuthenticatedObjectUrl(bucket: string, path: string): string {
+  return `${env.SUPABASE_URL}/storage/v1/object/authenticated/${bucket}/${path}`;
+}
+
+/**
+ * Anexos de uma mensagem (fallback para mensagens antigas sem media_attachments)
+ */
+export function getMessageAttachments(msg: {
+  media_type?: string | null;
+  media_urls?: string[] | null;
+  media_attachments?: MediaAttachment[] | null;
+}): MediaAttachment[] {
+  if (msg.media_attachments && msg.media_attachments.length > 0) {
+    return msg.media_attachments;
+  }
+
+  return (msg.media_urls || []).map(url => ({
+    url,
+    content_type: '',
+    media_type: (msg.media_type as MediaKind) || 'document',
+  }));
+}
+
+/**
+ * Verifica se o anexo já foi re-hospedado no Storage
+ */
+export function isRehosted(attachment: MediaAttachment): boolean {
+  return !!attachment.storage_bucket && !!attachment.storage_path;
+}
+
+// ===========================
+// DOWNLOAD
+// ===========================
+
+/**
+ * Baixa o conteúdo de um anexo
+ * - Re-hospedado: baixa do Supabase Storage
+ * - Original: baixa do Twilio com Basic Auth da organização
+ */
+export async function fetchAttachmentContent(
+  attachment: MediaAttachment,
+  config: Pick<TwilioWebhookConfig, 'account_sid' | 'auth_token'> | null
+): Promise<{ buffer: Buffer; contentType: string }> {
+  if (isRehosted(attachment)) {
+    const { data, error } = await supabase.storage
+      .from(attachment.storage_bucket!)
+      .download(attachment.storage_path!);
+
+    if (error || !data) {
+      throw new Error(`Failed to download ${attachment.storage_path} from storage: ${error?.message}`);
+    }
+
+    return {
+      buffer: Buffer.from(await data.arrayBuffer()),
+      contentType: attachment.content_type || data.type,
+    };
+  }
+
+  const headers: Record<string, string> = {};
+  if (config?.account_sid && config.auth_token) {
+    headers['Authorization'] = 'Basic ' + Buffer.from(`${config.account_sid}:${config.auth_token}`).toString('base64');
+  }
+
+  // O Twilio redireciona para uma URL assinada; fetch segue o redirect
+  const response = await fetch(attachment.url, { headers });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download media (${response.status}): ${attachment.url}`);
+  }
+
+  return {
+    buffer: Buffer.from(await response.arrayBuffer()),
+    contentType: attachment.content_type || response.headers.get('content-type') || 'application/octet-stream',
+  };
+}
+
+// ===========================
+// RE-HOSTING
+// ===========================
+
+/**
+ * Baixa um anexo do Twilio e salva no bucket da organização
+ * Retorna o anexo com a URL durável e metadados (tamanho, mime)
+ */
+export async function rehostAttachment(
+  organizationId: string,
+  messageId: string,
+  index: number,
+  attachment: MediaAttachment,
+  config: Pick<TwilioWebhookConfig, 'account_sid' | 'auth_token'>
+): Promise<MediaAttachment> {
+  if (isRehosted(attachment)) {
+    return attachment;
+  }
+
+  const { buffer, contentType } = await fetchAttachmentContent(attachment, config);
+
+  const bucket = getMediaBucketName(organizationId);
+  await ensureMediaBucket(bucket);
+
+  const mime = contentType.split(';')[0].trim();
+  const extension = EXTENSIONS_BY_CONTENT_TYPE[mime] || 'bin';
+  const path = `${messageId}/${index}.${extension}`;
+
+  // upsert: retries do Inngest podem reenviar o mesmo arquivo
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, buffer, { contentType: mime, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload media to ${bucket}/${path}: ${error.message}`);
+  }
+
+  console.log(`📦 Media re-hosted: ${bucket}/${path} (${buffer.length} bytes)`);
+
+  return {
+    ...attachment,
+    url: getAuthenticatedObjectUrl(bucket, path),
+    content_type: mime,
+    original_url: attachment.url,
+    storage_bucket: bucket,
+    storage_path: path,
+    size_bytes: buffer.length,
+  };
+}
@@ -0,0 +1,62 @@
+// src/services/outbound-queue.ts
+// Enfileira mensagens na fila outbound durável (whatsapp/send.message)
+
+import { supabase } from '../lib/supabase.js';
+import { inngest } from '../lib/inngest.js';
+import type { InteractiveMessage, QuickReplyButton } from '../types/whatsapp-messages.js';
+
+export interface EnqueueMessageOptions {
+  organizationId: string;
+  threadId: string;
+  content: string;
+  buttons?: QuickReplyButton[];
+  interactive?: InteractiveMessage;
+  senderUserId?: string;
+  // Metadados extras da linha em messages (ex: { meeting_id })
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Cria a linha em messages (status 'sending') e dispara o envio pela fila
+ * A linha é criada antes para o CRM exibir a mensagem imediatamente
+ */
+export async function enqueueWhatsAppMessage(options: EnqueueMessageOptions): Promise<{ messageId: string }> {
+  const { organizationId, threadId, buttons, interactive, senderUserId, metadata } = options;
+  const content = interactive?.body || options.content;
+
+  const { data: queuedMessage, error: insertError } = await supabase
+    .from('messages')
+    .insert({
+      organization_id: organizationId,
+      thread_id: threadId,
+      direction: 'outbound',
+      content,
+      sender_type: senderUserId ? 'user' : 'agent',
+      sender_user_id: senderUserId,
+      whatsapp_status: 'sending',
+      ai_processed: true,
+      metadata: { ...metadata, queued: true },
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !queuedMessage) {
+    throw new Error(`Failed to queue message: ${insertError?.message}`);
+  }
+
+  await inngest.send({
+    id: `whatsapp-send-${queuedMessage.id}`,
+    name: 'whatsapp/send.message',
+    data: {
+      threadId,
+      organizationId,
+      content: options.content || content,
+      buttons,
+      interactive,
+      messageId: queuedMessage.id,
+      senderUserId,
+    },
+  });
+
+  return { messageId: queuedMessage.id };
+}
@@ -0,0 +1,125 @@
+// src/services/presence.ts
+// Presença de "digitando" do agente com expiração (TTL)
+//
+// agent_typing só vale enquanto agent_typing_at for mais recente que TYPING_TTL_SECONDS.
+// Durante loops longos (AI + tools) um heartbeat renova o timestamp; se a execução
+// morrer no meio, o sweeper limpa a flag e a API já a trata como expirada.
+
+import { supabase } from '../lib/supabase.js';
+import { env } from '../config/env.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface TypingPresence {
+  thread_id: string;
+  agent_typing: boolean;
+  agent_typing_at: string | null;
+  expires_at: string | null;
+}
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+function getTypingTtlMs(): number {
+  return env.TYPING_TTL_SECONDS * 1000;
+}
+
+/**
+ * Estado efetivo de digitação (flag expirada conta como false)
+ */
+export function toTypingPresence(
+  thread: { id: string; agent_typing?: boolean | null; agent_typing_at?: string | null },
+  now: Date = new Date()
+): TypingPresence {
+  const typingAt = thread.agent_typing_at ? new Date(thread.agent_typing_at).getTime() : 0;
+  const expiresAt = typingAt + getTypingTtlMs();
+  const active = !!thread.agent_typing && typingAt > 0 && expiresAt > now.getTime();
+
+  return {
+    thread_id: thread.id,
+    agent_typing: active,
+    agent_typing_at: active ? thread.agent_typing_at! : null,
+    expires_at: active ? new Date(expiresAt).toISOString() : null,
+  };
+}
+
+/**
+ * Busca a presença de digitação de uma thread
+ */
+export async function getTypingPresence(threadId: string, organizationId: string): Promise<TypingPresence | null> {
+  const { data: thread } = await supabase
+    .from('message_threads')
+    .select('id, agent_typing, agent_typing_at')
+    .eq('id', threadId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  return thread ? toTypingPresence(thread) : null;
+}
+
+/**
+ * Renova o "digitando" (e religa se o sweeper já tiver limpado)
+ */
+export async function heartbeatTyping(threadId: string, organizationId: string): Promise<void> {
+  await supabase
+    .from('message_threads')
+    .update({ agent_typing: true, agent_typing_at: new Date().toISOString() })
+    .eq('id', threadId)
+    .eq('organization_id', organizationId);
+}
+
+/**
+ * Renova o "digitando" periodicamente enquanto uma operação longa roda
+ * Retorna a função que para o heartbeat; ela espera a renovação em andamento,
+ * senão um update atrasado religaria o "digitando" depois de escondido
+ */
+export function startTypingHeartbeat(threadId: string, organizationId: string): () => Promise<void> {
+  let pending: Promise<void> | null = null;
+
+  const interval = setInterval(() => {
+    if (pending) return; // renovação anterior ainda em andamento
+
+    pending = heartbeatTyping(threadId, organizationId)
+      .catch(error => {
+        console.error('❌ Typing heartbeat failed:', error);
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }, Math.max(1000, getTypingTtlMs() / 3));
+
+  // Não segura o processo aberto por causa do heartbeat
+  interval.unref();
+
+  return async () => {
+    clearInterval(interval);
+    await pending;
+  };
+}
+
+/**
+ * Limpa flags de digitação expiradas (execuções que morreram no meio)
+ */
+export async function sweepStaleTypingIndicators(): Promise<number> {
+  const cutoff = new Date(Date.now() - getTypingTtlMs()).toISOString();
+
+  const { data, error } = await supabase
+    .from('message_threads')
+    .update({ agent_typing: false, agent_typing_at: null })
+    .eq('agent_typing', true)
+    .or(`agent_typing_at.is.null,agent_typing_at.lt.${cutoff}`)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to sweep typing indicators: ${error.message}`);
+  }
+
+  const count = data?.length || 0;
+  if (count > 0) {
+    console.log(`🧹 Cleared ${count} stale typing indicator(s)`);
+  }
+  return count;
+}
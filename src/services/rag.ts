@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase.js';
 import { env } from '../config/env.js';
+import { recordVoyageUsage, type UsageContext } from './usage.js';
 
 // =============================================================================
 // TIPOS
@@ -18,14 +19,17 @@ interface KnowledgeChunk {
 
 interface RerankResult {
   index: number;
-  relevance_score: number;
+  relevance_score?: number; // ausente quando o rerank não rodou
 }
 
-interface RAGContext {
+export interface RAGContext {
+  id?: string;
   content: string;
   title?: string;
   scope: 'product' | 'global';
   category: string;
+  similarity?: number; // busca vetorial
+  rerank_score?: number; // Voyage rerank
 }
 
 interface Product {
@@ -212,7 +216,7 @@ export function shouldSkipRAG(
 /**
  * Gera embedding via Voyage AI
  */
-export async function generateEmbedding(text: string): Promise<number[] | null> {
+export async function generateEmbedding(text: string, usage?: UsageContext): Promise<number[] | null> {
   const voyageApiKey = env.VOYAGE_API_KEY;
 
   if (!voyageApiKey) {
@@ -243,6 +247,10 @@ export async function generateEmbedding(text: string): Promise<number[] | null>
     const data = await response.json();
     const embedding = data.data?.[0]?.embedding;
 
+    if (usage && data.usage?.total_tokens) {
+      await recordVoyageUsage(usage, 'embedding', EMBEDDING_MODEL, data.usage.total_tokens);
+    }
+
     if (!embedding || embedding.length !== 1024) {
       console.error(`❌ Invalid embedding: got ${embedding?.length || 0} dims, expected 1024`);
       return null;
@@ -261,17 +269,18 @@ export async function generateEmbedding(text: string): Promise<number[] | null>
 export async function rerankResults(
   query: string,
   documents: string[],
-  topK: number = TOP_K_AFTER_RERANK
-): Promise<number[]> {
+  topK: number = TOP_K_AFTER_RERANK,
+  usage?: UsageContext
+): Promise<RerankResult[]> {
   const voyageApiKey = env.VOYAGE_API_KEY;
 
   if (documents.length <= topK) {
-    return documents.map((_, i) => i);
+    return documents.map((_, index) => ({ index }));
   }
 
   if (!voyageApiKey) {
     console.warn('⚠️ VOYAGE_API_KEY not configured, skipping rerank');
-    return documents.slice(0, topK).map((_, i) => i);
+    return documents.slice(0, topK).map((_, index) => ({ index }));
   }
 
   try {
@@ -292,16 +301,20 @@ export async function rerankResults(
     if (!response.ok) {
       const error = await response.text();
       console.error('❌ Voyage rerank error:', error);
-      return documents.slice(0, topK).map((_, i) => i);
+      return documents.slice(0, topK).map((_, index) => ({ index }));
     }
 
     const data = await response.json();
     const results: RerankResult[] = data.data || [];
 
-    return results.map(r => r.index);
+    if (usage) {
+      await recordVoyageUsage(usage, 'rerank', RERANK_MODEL, data.usage?.total_tokens || 0);
+    }
+
+    return results;
   } catch (error) {
     console.error('❌ Error reranking:', error);
-    return documents.slice(0, topK).map((_, i) => i);
+    return documents.slice(0, topK).map((_, index) => ({ index }));
   }
 }
 
@@ -547,7 +560,8 @@ export function extractSearchContext(
 export async function getRelevantContext(
   message: string,
   organizationId: string,
-  messageHistory: Array<{ content?: string; direction: string }> = []
+  messageHistory: Array<{ content?: string; direction: string }> = [],
+  usage?: UsageContext
 ): Promise<RAGContext[]> {
   console.log('🔍 Starting RAG retrieval...');
 
@@ -616,7 +630,7 @@ export async function getRelevantContext(
   }
 
   // 4. Gerar embedding
-  const embedding = await generateEmbedding(searchContext);
+  const embedding = await generateEmbedding(searchContext, usage);
   if (!embedding) {
     console.error('❌ Failed to generate embedding');
     return [];
@@ -643,19 +657,24 @@ export async function getRelevantContext(
 
   // 6. Rerankar todos os resultados juntos
   const documents = candidates.map(c => c.content);
-  const rerankedIndices = await rerankResults(searchContext, documents, TOP_K_AFTER_RERANK);
-  console.log(`   Reranked to top ${rerankedIndices.length} results`);
+  const reranked = await rerankResults(searchContext, documents, TOP_K_AFTER_RERANK, usage);
+  console.log(`   Reranked to top ${reranked.length} results`);
 
   // 7. Construir resultado final
-  const results: RAGContext[] = rerankedIndices
-    .map(idx => candidates[idx])
-    .filter(Boolean)
-    .map(chunk => ({
-      content: chunk.content,
-      title: chunk.title,
-      scope: chunk.scope || 'global',
-      category: chunk.category || 'geral',
-    }));
+  const results: RAGContext[] = reranked
+    .filter(r => candidates[r.index])
+    .map(r => {
+      const chunk = candidates[r.index];
+      return {
+        id: chunk.id,
+        content: chunk.content,
+        title: chunk.title,
+        scope: chunk.scope || 'global',
+        category: chunk.category || 'geral',
+        similarity: chunk.similarity,
+        rerank_score: r.relevance_score,
+      };
+    });
 
   // Log debug dos chunks finais
   debugInfo.topChunksAfterRerank = results.map(r => ({
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { segmentResponse, getTypingDelayMs } from './response-segmenter.js';
+
+// Conteúdo sem espaços: o que a segmentação não pode perder
+function compact(text: string | string[]): string {
+  return (Array.isArray(text) ? text.join('') : text).replace(/\s+/g, '');
+}
+
+describe('segmentResponse', () => {
+  it('groups a short opener with the next paragraph', () => {
+    const segments = segmentResponse(`Claro!\n\n${'Explicação detalhada. '.repeat(10)}`);
+    assert.equal(segments.length, 1);
+    assert.ok(segments[0].startsWith('Claro!\n\n'));
+  });
+
+  it('keeps long paragraphs as separate messages', () => {
+    const paragraph = 'Texto longo o suficiente para virar uma mensagem. '.repeat(4).trim();
+    assert.deepEqual(segmentResponse(`${paragraph}\n\n${paragraph}`), [paragraph, paragraph]);
+  });
+
+  it('limits the number of messages', () => {
+    const paragraph = 'Parágrafo com tamanho suficiente para não ser agrupado logo de cara. '.repeat(2).trim();
+    const segments = segmentResponse(Array(6).fill(paragraph).join('\n\n'), { maxSegments: 3 });
+    assert.equal(segments.length, 3);
+  });
+
+  it('keeps leading punctuation when splitting oversized paragraphs', () => {
+    const text = `...${'Frase comprida sobre o processo do visto. '.repeat(5)}`;
+    const segments = segmentResponse(text, { maxChars: 100 });
+
+    assert.ok(segments.every(s => s.length <= 100));
+    assert.ok(segments[0].startsWith('...'));
+    assert.equal(compact(segments), compact(text));
+  });
+
+  it('breaks oversized words into chunks instead of truncating them', () => {
+    const url = `https://example.com/pagamento/${'a1b2c3'.repeat(40)}`;
+    const text = `Segue o link: ${url}`;
+    const segments = segmentResponse(text, { maxChars: 100 });
+
+    assert.ok(segments.length > 1);
+    assert.ok(segments.every(s => s.length <= 100));
+    assert.equal(compact(segments), compact(text));
+  });
+});
+
+describe('getTypingDelayMs', () => {
+  it('stays within the typing delay bounds', () => {
+    assert.equal(getTypingDelayMs('Oi'), 1000);
+    assert.equal(getTypingDelayMs('a'.repeat(1000)), 4000);
+  });
+});
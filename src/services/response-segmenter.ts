@@ -0,0 +1,129 @@
+// src/services/response-segmenter.ts
+// Divide respostas longas do agente em várias mensagens do WhatsApp
+//
+// Quebra em parágrafos, junta parágrafos curtos e nunca passa do limite de body
+// do Twilio (1600 caracteres). Entre as partes, o typing indicator fica ligado por
+// um tempo proporcional ao tamanho do texto, como uma pessoa digitando.
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+export const TWILIO_BODY_LIMIT = 1600;
+
+const DEFAULT_MAX_SEGMENTS = 4;
+const MIN_SEGMENT_CHARS = 120; // parágrafos menores que isso são agrupados com o seguinte
+const TYPING_CHARS_PER_SECOND = 40;
+const MIN_TYPING_DELAY_MS = 1000;
+const MAX_TYPING_DELAY_MS = 4000;
+
+// =============================================================================
+// SEGMENTAÇÃO
+// =============================================================================
+
+/**
+ * Quebra uma palavra maior que o limite (ex: URL) em pedaços
+ */
+function chunkWord(word: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < word.length; i += maxChars) {
+    chunks.push(word.slice(i, i + maxChars));
+  }
+  return chunks;
+}
+
+/**
+ * Quebra um bloco maior que o limite: frases, depois palavras
+ * Nenhum caractere se perde (pontuação solta como "..." fica na frase seguinte)
+ */
+function splitOversized(text: string, maxChars: number): string[] {
+  const sentences = (text.match(/[^.!?\n]*(?:[.!?\n]+\s*|$)/g) || [text]).filter(Boolean);
+  const parts: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if ((current + sentence).length <= maxChars) {
+      current += sentence;
+      continue;
+    }
+
+    if (current.trim()) parts.push(current.trim());
+    current = '';
+
+    if (sentence.length <= maxChars) {
+      current = sentence;
+      continue;
+    }
+
+    // Frase sozinha maior que o limite: quebra por palavras
+    const words = sentence.split(/\s+/).filter(Boolean).flatMap(word => chunkWord(word, maxChars));
+    for (const word of words) {
+      if ((current ? `${current} ${word}` : word).length > maxChars) {
+        if (current) parts.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Divide a resposta em partes (parágrafos), respeitando o limite do Twilio
+ * Acima de maxSegments, as últimas partes são agrupadas quando cabem no limite
+ */
+export function segmentResponse(
+  text: string,
+  options: { maxChars?: number; maxSegments?: number } = {}
+): string[] {
+  const maxChars = options.maxChars || TWILIO_BODY_LIMIT;
+  const maxSegments = options.maxSegments || DEFAULT_MAX_SEGMENTS;
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => p.length > maxChars ? splitOversized(p, maxChars) : [p]);
+
+  if (paragraphs.length === 0) return [];
+
+  // Agrupa parágrafos curtos (ex: "Claro!" + explicação)
+  const segments: string[] = [];
+  for (const paragraph of paragraphs) {
+    const last = segments[segments.length - 1];
+    if (last !== undefined && last.length < MIN_SEGMENT_CHARS && `${last}\n\n${paragraph}`.length <= maxChars) {
+      segments[segments.length - 1] = `${last}\n\n${paragraph}`;
+    } else {
+      segments.push(paragraph);
+    }
+  }
+
+  // Limita a quantidade de mensagens juntando as menores vizinhas
+  while (segments.length > maxSegments) {
+    let bestIndex = -1;
+    let bestLength = Infinity;
+    for (let i = 0; i < segments.length - 1; i++) {
+      const merged = segments[i].length + segments[i + 1].length + 2;
+      if (merged <= maxChars && merged < bestLength) {
+        bestIndex = i;
+        bestLength = merged;
+      }
+    }
+    if (bestIndex === -1) break; // nada mais cabe junto
+
+    segments.splice(bestIndex, 2, `${segments[bestIndex]}\n\n${segments[bestIndex + 1]}`);
+  }
+
+  return segments;
+}
+
+/**
+ * Tempo de "digitação" antes de enviar uma parte
+ */
+export function getTypingDelayMs(text: string): number {
+  const delay = (text.length / TYPING_CHARS_PER_SECOND) * 1000;
+  return Math.round(Math.min(MAX_TYPING_DELAY_MS, Math.max(MIN_TYPING_DELAY_MS, delay)));
+}
@@ -0,0 +1,324 @@
+// src/services/scheduling.ts
+// Agendamento de reuniões contra a agenda de disponibilidade local
+//
+// Cada usuário da organização publica horários livres em availability_slots.
+// O agente propõe os próximos horários como lista do WhatsApp, reserva o escolhido
+// (open → booked de forma atômica) e cria a reunião em meetings. Confirmação e
+// lembrete saem pela fila outbound.
+
+import { supabase } from '../lib/supabase.js';
+import { inngest } from '../lib/inngest.js';
+import { env } from '../config/env.js';
+import { createListMessage, type InteractiveMessage } from './whatsapp.js';
+import { enqueueWhatsAppMessage } from './outbound-queue.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface AvailabilitySlot {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  starts_at: string;
+  ends_at: string;
+  status: 'open' | 'booked' | 'blocked';
+}
+
+export interface Meeting {
+  id: string;
+  organization_id: string;
+  slot_id: string;
+  user_id: string;
+  contact_id: string;
+  thread_id: string;
+  starts_at: string;
+  ends_at: string;
+  status: 'scheduled' | 'cancelled' | 'completed';
+  notes?: string | null;
+  reminder_sent_at?: string | null;
+}
+
+/**
+ * Horário não está mais livre (outro contato reservou ou foi bloqueado)
+ */
+export class SlotUnavailableError extends Error {
+  constructor(readonly slotId: string) {
+    super(`Slot ${slotId} is no longer available`);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const SCHEDULING_TIMEZONE = 'America/Sao_Paulo';
+const MIN_LEAD_MINUTES = 60; // não oferecer horários que começam em menos de 1h
+const DEFAULT_DAYS_AHEAD = 14;
+const MAX_SLOTS_PROPOSED = 10; // limite de itens de uma lista do WhatsApp
+const SLOT_ROW_PREFIX = 'slot_';
+
+// =============================================================================
+// FORMATAÇÃO
+// =============================================================================
+
+/**
+ * Rótulo curto do horário (cabe no título de 24 caracteres da lista)
+ * Ex: "ter., 21/10 às 14:00"
+ */
+export function formatSlotLabel(startsAt: string): string {
+  const date = new Date(startsAt);
+  const day = new Intl.DateTimeFormat('pt-BR', {
+    timeZone: SCHEDULING_TIMEZONE,
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+  }).format(date);
+  const time = new Intl.DateTimeFormat('pt-BR', {
+    timeZone: SCHEDULING_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+
+  return `${day} às ${time}`;
+}
+
+function normalizeLabel(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Monta a lista interativa com os horários livres
+ */
+export function buildSlotListMessage(slots: AvailabilitySlot[], body: string): InteractiveMessage {
+  return createListMessage(body, 'Ver horários', [{
+    title: 'Horários disponíveis',
+    rows: slots.slice(0, MAX_SLOTS_PROPOSED).map(slot => {
+      const minutes = Math.round((new Date(slot.ends_at).getTime() - new Date(slot.starts_at).getTime()) / 60000);
+      return {
+        id: `${SLOT_ROW_PREFIX}${slot.id}`,
+        title: formatSlotLabel(slot.starts_at).substring(0, 24),
+        description: `Duração: ${minutes} min`,
+      };
+    }),
+  }]);
+}
+
+// =============================================================================
+// DISPONIBILIDADE
+// =============================================================================
+
+/**
+ * Próximos horários livres da organização (opcionalmente de um usuário)
+ */
+export async function listFreeSlots(
+  organizationId: string,
+  options: { userId?: string; daysAhead?: number; limit?: number } = {}
+): Promise<AvailabilitySlot[]> {
+  const from = new Date(Date.now() + MIN_LEAD_MINUTES * 60 * 1000);
+  const to = new Date(Date.now() + (options.daysAhead || DEFAULT_DAYS_AHEAD) * 24 * 60 * 60 * 1000);
+
+  let query = supabase
+    .from('availability_slots')
+    .select('id, organization_id, user_id, starts_at, ends_at, status')
+    .eq('organization_id', organizationId)
+    .eq('status', 'open')
+    .gte('starts_at', from.toISOString())
+    .lte('starts_at', to.toISOString())
+    .order('starts_at', { ascending: true })
+    .limit(options.limit || MAX_SLOTS_PROPOSED);
+
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list availability: ${error.message}`);
+  }
+
+  return (data || []) as AvailabilitySlot[];
+}
+
+/**
+ * Encontra o horário escolhido pelo cliente: id, id da linha da lista ou rótulo
+ */
+export async function findProposedSlot(
+  organizationId: string,
+  choice: string
+): Promise<AvailabilitySlot | null> {
+  const trimmed = choice.trim();
+  const slotId = trimmed.startsWith(SLOT_ROW_PREFIX) ? trimmed.slice(SLOT_ROW_PREFIX.length) : trimmed;
+
+  const slots = await listFreeSlots(organizationId, { limit: 50 });
+  const byId = slots.find(s => s.id === slotId);
+  if (byId) return byId;
+
+  const label = normalizeLabel(trimmed);
+  return slots.find(s => normalizeLabel(formatSlotLabel(s.starts_at)) === label) || null;
+}
+
+// =============================================================================
+// RESERVA
+// =============================================================================
+
+/**
+ * Reserva um horário e cria a reunião
+ * A reserva é atômica (update condicionado a status = 'open')
+ * dryRun: grava a reunião, mas não agenda o lembrete
+ */
+export async function bookSlot(options: {
+  organizationId: string;
+  slotId: string;
+  contactId: string;
+  threadId: string;
+  notes?: string;
+  dryRun?: boolean;
+}): Promise<Meeting> {
+  const { organizationId, slotId, contactId, threadId, notes, dryRun } = options;
+
+  const { data: slot } = await supabase
+    .from('availability_slots')
+    .update({ status: 'booked' })
+    .eq('id', slotId)
+    .eq('organization_id', organizationId)
+    .eq('status', 'open')
+    .select('id, user_id, starts_at, ends_at')
+    .single();
+
+  if (!slot) {
+    throw new SlotUnavailableError(slotId);
+  }
+
+  const { data: meeting, error } = await supabase
+    .from('meetings')
+    .insert({
+      organization_id: organizationId,
+      slot_id: slot.id,
+      user_id: slot.user_id,
+      contact_id: contactId,
+      thread_id: threadId,
+      starts_at: slot.starts_at,
+      ends_at: slot.ends_at,
+      status: 'scheduled',
+      notes: notes || null,
+    })
+    .select('*')
+    .single();
+
+  if (error || !meeting) {
+    // Libera o horário para não ficar preso sem reunião
+    await supabase
+      .from('availability_slots')
+      .update({ status: 'open' })
+      .eq('id', slot.id)
+      .eq('organization_id', organizationId);
+    throw new Error(`Failed to create meeting: ${error?.message}`);
+  }
+
+  console.log(`📅 Meeting booked: ${meeting.id} at ${slot.starts_at}`);
+
+  if (dryRun) return meeting as Meeting;
+
+  await inngest.send({
+    id: `meeting-booked-${meeting.id}`,
+    name: 'meeting/booked',
+    data: {
+      meetingId: meeting.id,
+      organizationId,
+      threadId,
+      startsAt: slot.starts_at,
+    },
+  });
+
+  return meeting as Meeting;
+}
+
+/**
+ * Cancela uma reunião e libera o horário
+ */
+export async function cancelMeeting(organizationId: string, meetingId: string): Promise<void> {
+  const { data: meeting, error } = await supabase
+    .from('meetings')
+    .update({ status: 'cancelled' })
+    .eq('id', meetingId)
+    .eq('organization_id', organizationId)
+    .eq('status', 'scheduled')
+    .select('id, slot_id')
+    .single();
+
+  if (error || !meeting) {
+    throw new Error('Meeting not found');
+  }
+
+  await supabase
+    .from('availability_slots')
+    .update({ status: 'open' })
+    .eq('id', meeting.slot_id)
+    .eq('organization_id', organizationId)
+    .eq('status', 'booked');
+
+  await inngest.send({
+    name: 'meeting/cancelled',
+    data: { meetingId, organizationId },
+  });
+
+  console.log(`📅 Meeting cancelled: ${meetingId}`);
+}
+
+// =============================================================================
+// MENSAGENS
+// =============================================================================
+
+/**
+ * Envia a confirmação da reunião pela fila outbound
+ */
+export async function sendMeetingConfirmation(meeting: Meeting): Promise<void> {
+  await enqueueWhatsAppMessage({
+    organizationId: meeting.organization_id,
+    threadId: meeting.thread_id,
+    content: `✅ Reunião confirmada para ${formatSlotLabel(meeting.starts_at)} (horário de Brasília). Se precisar remarcar, é só avisar por aqui.`,
+    metadata: { meeting_id: meeting.id, kind: 'meeting_confirmation' },
+  });
+}
+
+/**
+ * Momento do lembrete (MEETING_REMINDER_MINUTES antes do início)
+ */
+export function getReminderAt(startsAt: string): Date {
+  return new Date(new Date(startsAt).getTime() - env.MEETING_REMINDER_MINUTES * 60 * 1000);
+}
+
+/**
+ * Envia o lembrete da reunião, se ainda estiver agendada
+ * Retorna false quando a reunião foi cancelada ou o lembrete já saiu
+ */
+export async function sendMeetingReminder(organizationId: string, meetingId: string): Promise<boolean> {
+  const { data: meeting } = await supabase
+    .from('meetings')
+    .select('*')
+    .eq('id', meetingId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (!meeting || meeting.status !== 'scheduled' || meeting.reminder_sent_at) {
+    return false;
+  }
+
+  await enqueueWhatsAppMessage({
+    organizationId,
+    threadId: meeting.thread_id,
+    content: `⏰ Lembrete: nossa reunião é ${formatSlotLabel(meeting.starts_at)} (horário de Brasília). Até já!`,
+    metadata: { meeting_id: meeting.id, kind: 'meeting_reminder' },
+  });
+
+  await supabase
+    .from('meetings')
+    .update({ reminder_sent_at: new Date().toISOString() })
+    .eq('id', meetingId)
+    .eq('organization_id', organizationId);
+
+  return true;
+}
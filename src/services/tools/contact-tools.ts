@@ -0,0 +1,167 @@
+// src/services/tools/contact-tools.ts
+// Tools de contato: atualizar dados e controle de confirmação do nome
+
+import { supabase } from '../../lib/supabase.js';
+import type { AgentTool } from './registry.js';
+
+export const updateContactTool: AgentTool = {
+  permission: 'contacts:write',
+  enabledByDefault: true,
+  definition: {
+    name: "update_contact",
+    description: `Atualiza informacoes do contato no CRM.
+
+CONTEXTO IMPORTANTE:
+O nome atual no sistema veio do perfil do WhatsApp e provavelmente NAO e o nome real do cliente.
+Exemplos comuns: "g.s." (real: Gianluca Silveira), "Mae do Pedro" (real: Maria Santos)
+
+REGRAS PARA NOME:
+1. Use APENAS quando o cliente CONFIRMAR o nome real
+2. O fluxo correto e:
+   - Agente pergunta: "Posso confirmar seu nome completo para nosso cadastro?"
+   - Cliente responde: "Gianluca Silveira" ou "Meu nome e Maria"
+   - Agente confirma: "Perfeito, Gianluca!" e usa a tool
+3. Marque name_was_confirmed: true ao usar
+
+Para email, telefone e empresa: pode atualizar diretamente quando informado.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        full_name: {
+          type: "string",
+          description: "Nome completo REAL do contato (nao o nome do WhatsApp)"
+        },
+        first_name: { type: "string", description: "Primeiro nome real do contato" },
+        last_name: { type: "string", description: "Sobrenome do contato" },
+        email: { type: "string", description: "Email do contato" },
+        phone: { type: "string", description: "Telefone do contato" },
+        company_name: { type: "string", description: "Nome da empresa do contato" },
+        name_was_confirmed: {
+          type: "boolean",
+          description: "OBRIGATORIO para nome. True = cliente informou/confirmou o nome real."
+        }
+      },
+    },
+  },
+
+  async execute(args, context) {
+    const updateData: Record<string, any> = {};
+
+    // VALIDACAO: Nome so pode ser alterado com confirmacao
+    if (args.full_name || args.first_name || args.last_name) {
+      if (!args.name_was_confirmed) {
+        console.log('❌ Name update rejected: no confirmation flag');
+        return {
+          success: false,
+          message: 'ERRO: Para atualizar o nome, o cliente precisa ter confirmado. Use name_was_confirmed: true apenas quando o cliente informou o nome real.',
+          data: { requires_confirmation: true }
+        };
+      }
+
+      // Buscar nome atual para salvar como original
+      const { data: currentContact } = await supabase
+        .from('contacts')
+        .select('full_name')
+        .eq('id', context.contactId)
+        .single();
+
+      // Preparar dados do nome
+      if (args.full_name) updateData.full_name = args.full_name;
+      if (args.first_name) updateData.first_name = args.first_name;
+      if (args.last_name) updateData.last_name = args.last_name;
+
+      // Atualizar memorias
+      const memoryUpdate: Record<string, any> = {
+        name_confirmed: true,
+        name_confirmed_at: new Date().toISOString(),
+        name_asked: true,
+        updated_at: new Date().toISOString(),
+      };
+
+      // Salvar nome original do WhatsApp
+      const { data: existingMemory } = await supabase
+        .from('contact_memories')
+        .select('original_whatsapp_name')
+        .eq('contact_id', context.contactId)
+        .single();
+
+      if (!existingMemory?.original_whatsapp_name && currentContact?.full_name) {
+        memoryUpdate.original_whatsapp_name = currentContact.full_name;
+      }
+
+      await supabase
+        .from('contact_memories')
+        .upsert({
+          organization_id: context.organizationId,
+          contact_id: context.contactId,
+          ...memoryUpdate,
+        }, {
+          onConflict: 'contact_id',
+        });
+    }
+
+    // Outros campos nao precisam de confirmacao
+    if (args.email) updateData.email = args.email;
+    if (args.phone) updateData.phone = args.phone;
+    if (args.company_name) updateData.company_name = args.company_name;
+
+    if (Object.keys(updateData).length === 0) {
+      return { success: false, message: 'Nenhum campo para atualizar' };
+    }
+
+    const { error } = await supabase
+      .from('contacts')
+      .update(updateData)
+      .eq('id', context.contactId);
+
+    if (error) {
+      console.error('Error updating contact:', error);
+      return { success: false, message: error.message };
+    }
+
+    console.log('✅ Contact updated:', updateData);
+    return { success: true, message: 'Contato atualizado com sucesso', data: updateData };
+  },
+};
+
+export const markNameAskedTool: AgentTool = {
+  permission: 'contacts:write',
+  enabledByDefault: true,
+  definition: {
+    name: "mark_name_asked",
+    description: `Marca que voce ja perguntou o nome do cliente nesta conversa.
+
+USE ESTA TOOL IMEDIATAMENTE apos perguntar o nome para evitar perguntar novamente.
+Exemplo de uso: Apos enviar "Posso confirmar seu nome completo?", chame esta tool.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        question_asked: {
+          type: "string",
+          description: "A pergunta que voce fez (ex: 'Perguntei nome completo para cadastro')"
+        }
+      },
+    },
+  },
+
+  async execute(_args, context) {
+    const { error } = await supabase
+      .from('contact_memories')
+      .upsert({
+        organization_id: context.organizationId,
+        contact_id: context.contactId,
+        name_asked: true,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'contact_id',
+      });
+
+    if (error) {
+      console.error('Error marking name asked:', error);
+      return { success: false, message: error.message };
+    }
+
+    console.log('✅ Marked name as asked for contact:', context.contactId);
+    return { success: true, message: 'Marcado que perguntou o nome' };
+  },
+};
@@ -0,0 +1,31 @@
+// src/services/tools/handoff-tools.ts
+// Tool de transferência para atendente humano
+
+import { transitionHandoff } from '../handoff.js';
+import type { AgentTool } from './registry.js';
+
+export const transferToHumanTool: AgentTool = {
+  permission: 'threads:handoff',
+  enabledByDefault: true,
+  definition: {
+    name: "transfer_to_human",
+    description: "Transfere a conversa para um atendente humano. Use quando o cliente pedir explicitamente, o assunto for muito complexo, ou houver reclamacao seria.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        reason: { type: "string", description: "Motivo da transferencia para o atendente" },
+      },
+    },
+  },
+
+  async execute(args, context) {
+    if (context.dryRun) {
+      return { success: true, message: 'Conversa marcada para atencao humana' };
+    }
+
+    await transitionHandoff(context.threadId, context.organizationId, 'human_pending', {
+      reason: args.reason,
+    });
+    return { success: true, message: 'Conversa marcada para atencao humana' };
+  },
+};
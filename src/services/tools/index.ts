@@ -0,0 +1,34 @@
+// src/services/tools/index.ts
+// Tools disponíveis para os agentes (registradas ao importar este módulo)
+
+import { registerTool } from './registry.js';
+import { updateContactTool, markNameAskedTool } from './contact-tools.js';
+import { transferToHumanTool } from './handoff-tools.js';
+import { saveContactFactTool, recordObjectionTool, updateQualificationTool } from './memory-tools.js';
+import { createOpportunityTool, updateOpportunityTool } from './opportunity-tools.js';
+import { proposeMeetingSlotsTool, bookMeetingTool } from './scheduling-tools.js';
+import { replyWithOptionsTool } from './interactive-tools.js';
+
+registerTool(updateContactTool);
+registerTool(markNameAskedTool);
+registerTool(transferToHumanTool);
+registerTool(saveContactFactTool);
+registerTool(recordObjectionTool);
+registerTool(updateQualificationTool);
+registerTool(createOpportunityTool);
+registerTool(updateOpportunityTool);
+registerTool(proposeMeetingSlotsTool);
+registerTool(bookMeetingTool);
+registerTool(replyWithOptionsTool);
+
+export {
+  registerTool,
+  listTools,
+  getAgentTools,
+  executeAgentTool,
+  type AgentTool,
+  type ToolContext,
+  type ToolTurnState,
+  type ToolResult,
+  type ToolPermission,
+} from './registry.js';
@@ -0,0 +1,62 @@
+// src/services/tools/interactive-tools.ts
+// Tool para responder com botões, lista ou links (mensagem interativa)
+
+import { buildAgentInteractive } from '../interactive-reply.js';
+import type { AgentTool } from './registry.js';
+
+export const replyWithOptionsTool: AgentTool = {
+  permission: 'messages:interactive',
+  enabledByDefault: false,
+  definition: {
+    name: "reply_with_options",
+    description: `Define que sua PROXIMA resposta sera enviada como mensagem interativa do WhatsApp.
+O texto que voce escrever depois vira o corpo da mensagem; as opcoes aparecem como botoes/lista.
+
+- quick_reply: ate 3 botoes curtos (max 20 caracteres cada)
+- list: ate 10 opcoes (max 24 caracteres cada), abertas por um botao
+- cta: ate 2 links ou telefones
+
+Nao repita as opcoes no texto da resposta.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        type: { type: "string", enum: ["quick_reply", "list", "cta"], description: "Formato da mensagem" },
+        options: {
+          type: "array",
+          items: { type: "string" },
+          description: "Titulos das opcoes (quick_reply/list)",
+        },
+        list_button_text: { type: "string", description: "Texto do botao que abre a lista (list)" },
+        links: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              url: { type: "string" },
+              phone: { type: "string" },
+            },
+            required: ["title"],
+          },
+          description: "Botoes de link/telefone (cta)",
+        },
+        footer: { type: "string", description: "Rodape curto (opcional)" },
+      },
+      required: ["type"],
+    },
+  },
+
+  async execute(args, context) {
+    const { interactive, errors } = buildAgentInteractive(args);
+
+    if (!interactive) {
+      return {
+        success: false,
+        message: `Mensagem interativa invalida: ${errors.join('; ')}. Corrija ou responda em texto.`,
+      };
+    }
+
+    context.turn.replyInteractive = interactive;
+    return { success: true, message: 'Formato definido. Agora escreva o texto da resposta (sem listar as opcoes).' };
+  },
+};
@@ -0,0 +1,126 @@
+// src/services/tools/memory-tools.ts
+// Tools de memória do contato: fatos, objeções e qualificação
+
+import {
+  recordFact,
+  recordObjection,
+  recordQualification,
+  getQualificationSchema,
+  getOrganizationQualificationSchema,
+} from '../contact-memory.js';
+import type { AgentTool } from './registry.js';
+
+export const saveContactFactTool: AgentTool = {
+  permission: 'memories:write',
+  enabledByDefault: false,
+  definition: {
+    name: "save_contact_fact",
+    description: `Salva um fato relevante sobre o cliente para lembrar nas proximas conversas.
+
+Exemplos: "Tem 2 filhos", "Ja e cliente do plano basico", "Prefere contato a tarde".
+Use frases curtas. Nao salve o que ja aparece na MEMORIA DO CONTATO.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        fact: { type: "string", description: "Fato curto sobre o cliente" },
+      },
+      required: ["fact"],
+    },
+  },
+
+  async execute(args, context) {
+    if (!args.fact || String(args.fact).trim() === '') {
+      return { success: false, message: 'Informe o fato' };
+    }
+
+    const facts = await recordFact(context.organizationId, context.contactId, String(args.fact));
+    console.log(`🧠 Fact saved for contact ${context.contactId}`);
+    return { success: true, message: 'Fato salvo', data: { total_facts: facts.length } };
+  },
+};
+
+export const recordObjectionTool: AgentTool = {
+  permission: 'memories:write',
+  enabledByDefault: false,
+  definition: {
+    name: "record_objection",
+    description: `Registra uma objecao do cliente (ex: "Achou caro", "Precisa falar com o socio").
+Quando a objecao for superada, chame novamente com resolved: true para remove-la.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        objection: { type: "string", description: "Objecao em poucas palavras" },
+        resolved: { type: "boolean", description: "True quando a objecao foi superada" },
+      },
+      required: ["objection"],
+    },
+  },
+
+  async execute(args, context) {
+    if (!args.objection || String(args.objection).trim() === '') {
+      return { success: false, message: 'Informe a objecao' };
+    }
+
+    const objections = await recordObjection(
+      context.organizationId,
+      context.contactId,
+      String(args.objection),
+      args.resolved === true
+    );
+    console.log(`🧠 Objection ${args.resolved ? 'resolved' : 'recorded'} for contact ${context.contactId}`);
+    return { success: true, message: 'Objecao registrada', data: { open_objections: objections } };
+  },
+};
+
+export const updateQualificationTool: AgentTool = {
+  permission: 'memories:write',
+  enabledByDefault: true,
+  // Sem qualification_schema não há chaves válidas: a tool não é oferecida
+  isAvailable: claudeConfig => getQualificationSchema(claudeConfig).length > 0,
+  definition: {
+    name: "update_qualification",
+    description: `Salva respostas de qualificacao do cliente.
+Use apenas as chaves listadas em "Qualificacao pendente" na MEMORIA DO CONTATO.
+Datas no formato YYYY-MM-DD.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        answers: {
+          type: "object",
+          description: "Respostas por chave (ex: {\"budget\": \"ate 5 mil\", \"timeline\": \"proximo mes\"})",
+        },
+      },
+      required: ["answers"],
+    },
+  },
+
+  async execute(args, context) {
+    if (!args.answers || typeof args.answers !== 'object' || Array.isArray(args.answers)) {
+      return { success: false, message: 'Informe answers como objeto' };
+    }
+
+    const schema = await getOrganizationQualificationSchema(context.organizationId);
+    if (schema.length === 0) {
+      return { success: false, message: 'Esta organizacao nao tem qualificacao configurada' };
+    }
+
+    const { qualification, rejected } = await recordQualification(
+      context.organizationId,
+      context.contactId,
+      args.answers,
+      schema
+    );
+
+    console.log(`🧠 Qualification updated for contact ${context.contactId}`, qualification);
+
+    if (rejected.length > 0) {
+      return {
+        success: Object.keys(args.answers).length > rejected.length,
+        message: `Algumas respostas foram rejeitadas: ${rejected.join('; ')}`,
+        data: { qualification, valid_keys: schema.map(f => f.key) },
+      };
+    }
+
+    return { success: true, message: 'Qualificacao atualizada', data: { qualification } };
+  },
+};
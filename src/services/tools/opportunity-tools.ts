@@ -0,0 +1,270 @@
+// src/services/tools/opportunity-tools.ts
+// Tools de oportunidades: abrir para o produto detectado e avançar no pipeline
+
+import { supabase, type PipelineStage } from '../../lib/supabase.js';
+import { isValidDateOnly } from '../../lib/dates.js';
+import { getOrganizationProducts } from '../rag.js';
+import type { AgentTool, ToolContext, ToolResult } from './registry.js';
+
+// =============================================================================
+// VALIDAÇÃO
+// =============================================================================
+
+type Validated<T> = { ok: true; value: T } | { ok: false; error: ToolResult };
+
+function invalid(message: string, data?: any): { ok: false; error: ToolResult } {
+  return { ok: false, error: { success: false, message, data } };
+}
+
+/**
+ * Produto da organização por id, slug ou nome
+ */
+async function resolveProduct(
+  organizationId: string,
+  product: string
+): Promise<Validated<{ id: string; name: string }>> {
+  const products = await getOrganizationProducts(organizationId);
+  const query = product.trim().toLowerCase();
+
+  const match = products.find(p =>
+    p.id === product ||
+    p.slug?.toLowerCase() === query ||
+    p.name.toLowerCase() === query
+  );
+
+  if (!match) {
+    return invalid(`Produto "${product}" nao encontrado nesta organizacao`, {
+      available_products: products.map(p => p.name),
+    });
+  }
+
+  return { ok: true, value: { id: match.id, name: match.name } };
+}
+
+/**
+ * Estágio do pipeline da organização por id ou nome
+ */
+async function resolveStage(organizationId: string, stage: string): Promise<Validated<PipelineStage>> {
+  const { data: stages } = await supabase
+    .from('pipeline_stages')
+    .select('id, organization_id, name, position')
+    .eq('organization_id', organizationId)
+    .order('position', { ascending: true });
+
+  const query = stage.trim().toLowerCase();
+  const match = (stages || []).find(s => s.id === stage || s.name.toLowerCase() === query);
+
+  if (!match) {
+    return invalid(`Estagio "${stage}" nao encontrado`, {
+      available_stages: (stages || []).map(s => s.name),
+    });
+  }
+
+  return { ok: true, value: match as PipelineStage };
+}
+
+function validateValue(value: unknown): Validated<number> {
+  const amount = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+  if (typeof amount !== 'number' || Number.isNaN(amount) || amount < 0) {
+    return invalid(`Valor invalido: ${value}. Informe um numero positivo (ex: 1500.00)`);
+  }
+  return { ok: true, value: Math.round(amount * 100) / 100 };
+}
+
+function validateCloseDate(date: unknown): Validated<string> {
+  if (!isValidDateOnly(date)) {
+    return invalid(`Data invalida: ${date}. Use o formato YYYY-MM-DD`);
+  }
+  return { ok: true, value: date };
+}
+
+/**
+ * Valida stage/value/expected_close_date opcionais e monta o update
+ */
+async function buildOpportunityFields(
+  args: { stage?: string; value?: unknown; expected_close_date?: unknown },
+  context: ToolContext
+): Promise<Validated<Record<string, any>>> {
+  const fields: Record<string, any> = {};
+
+  if (args.stage) {
+    const stage = await resolveStage(context.organizationId, args.stage);
+    if (!stage.ok) return stage;
+    fields.stage_id = stage.value.id;
+  }
+
+  if (args.value !== undefined && args.value !== null) {
+    const value = validateValue(args.value);
+    if (!value.ok) return value;
+    fields.value = value.value;
+  }
+
+  if (args.expected_close_date) {
+    const date = validateCloseDate(args.expected_close_date);
+    if (!date.ok) return date;
+    fields.expected_close_date = date.value;
+  }
+
+  return { ok: true, value: fields };
+}
+
+/**
+ * Oportunidade vinculada à thread (se houver)
+ */
+async function getThreadOpportunityId(context: ToolContext): Promise<string | null> {
+  const { data: thread } = await supabase
+    .from('message_threads')
+    .select('opportunity_id')
+    .eq('id', context.threadId)
+    .eq('organization_id', context.organizationId)
+    .single();
+
+  return thread?.opportunity_id || null;
+}
+
+// =============================================================================
+// TOOLS
+// =============================================================================
+
+export const createOpportunityTool: AgentTool = {
+  permission: 'opportunities:write',
+  enabledByDefault: false,
+  definition: {
+    name: "create_opportunity",
+    description: `Abre uma oportunidade no CRM para o produto de interesse do cliente e vincula a esta conversa.
+
+Use quando o cliente demonstrar interesse real em um produto (pediu proposta, preco, condicoes).
+Cada conversa tem no maximo uma oportunidade; se ja existir, use update_opportunity.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        product: { type: "string", description: "Nome do produto de interesse (como aparece na base de conhecimento)" },
+        title: { type: "string", description: "Titulo curto da oportunidade (opcional)" },
+        stage: { type: "string", description: "Nome do estagio do pipeline (opcional, padrao: primeiro estagio)" },
+        value: { type: "number", description: "Valor estimado do negocio em reais (opcional)" },
+        expected_close_date: { type: "string", description: "Data prevista de fechamento YYYY-MM-DD (opcional)" },
+      },
+      required: ["product"],
+    },
+  },
+
+  async execute(args, context) {
+    if (!args.product) {
+      return { success: false, message: 'Informe o produto de interesse' };
+    }
+
+    const existingId = await getThreadOpportunityId(context);
+    if (existingId) {
+      return {
+        success: false,
+        message: 'Esta conversa ja tem uma oportunidade. Use update_opportunity para alterar.',
+        data: { opportunity_id: existingId },
+      };
+    }
+
+    const product = await resolveProduct(context.organizationId, args.product);
+    if (!product.ok) return product.error;
+
+    const fields = await buildOpportunityFields(args, context);
+    if (!fields.ok) return fields.error;
+
+    // Sem estágio informado: primeiro estágio do pipeline
+    if (!fields.value.stage_id) {
+      const { data: firstStage } = await supabase
+        .from('pipeline_stages')
+        .select('id')
+        .eq('organization_id', context.organizationId)
+        .order('position', { ascending: true })
+        .limit(1)
+        .single();
+      fields.value.stage_id = firstStage?.id || null;
+    }
+
+    const { data: opportunity, error } = await supabase
+      .from('opportunities')
+      .insert({
+        organization_id: context.organizationId,
+        contact_id: context.contactId,
+        product_id: product.value.id,
+        title: args.title || product.value.name,
+        source: 'ai_agent',
+        ...fields.value,
+      })
+      .select('id, title, stage_id, value, expected_close_date')
+      .single();
+
+    if (error || !opportunity) {
+      console.error('Error creating opportunity:', error);
+      return { success: false, message: error?.message || 'Erro ao criar oportunidade' };
+    }
+
+    const { error: linkError } = await supabase
+      .from('message_threads')
+      .update({ opportunity_id: opportunity.id })
+      .eq('id', context.threadId)
+      .eq('organization_id', context.organizationId);
+
+    if (linkError) {
+      console.error('Error linking opportunity to thread:', linkError);
+    }
+
+    console.log(`✅ Opportunity created: ${opportunity.id} (${product.value.name})`);
+    return { success: true, message: 'Oportunidade criada', data: opportunity };
+  },
+};
+
+export const updateOpportunityTool: AgentTool = {
+  permission: 'opportunities:write',
+  enabledByDefault: false,
+  definition: {
+    name: "update_opportunity",
+    description: `Atualiza a oportunidade vinculada a esta conversa: estagio do pipeline, valor, data prevista de fechamento ou produto.
+
+Use quando a negociacao avancar (ex: proposta enviada, cliente aceitou condicoes) ou o cliente informar valor/prazo.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        stage: { type: "string", description: "Nome do novo estagio do pipeline" },
+        value: { type: "number", description: "Valor do negocio em reais" },
+        expected_close_date: { type: "string", description: "Data prevista de fechamento YYYY-MM-DD" },
+        product: { type: "string", description: "Produto, se o cliente mudou de interesse" },
+      },
+    },
+  },
+
+  async execute(args, context) {
+    const opportunityId = await getThreadOpportunityId(context);
+    if (!opportunityId) {
+      return { success: false, message: 'Esta conversa nao tem oportunidade. Use create_opportunity primeiro.' };
+    }
+
+    const fields = await buildOpportunityFields(args, context);
+    if (!fields.ok) return fields.error;
+
+    if (args.product) {
+      const product = await resolveProduct(context.organizationId, args.product);
+      if (!product.ok) return product.error;
+      fields.value.product_id = product.value.id;
+    }
+
+    if (Object.keys(fields.value).length === 0) {
+      return { success: false, message: 'Nenhum campo para atualizar' };
+    }
+
+    const { data: opportunity, error } = await supabase
+      .from('opportunities')
+      .update({ ...fields.value, updated_at: new Date().toISOString() })
+      .eq('id', opportunityId)
+      .eq('organization_id', context.organizationId)
+      .select('id, title, stage_id, value, expected_close_date')
+      .single();
+
+    if (error || !opportunity) {
+      console.error('Error updating opportunity:', error);
+      return { success: false, message: error?.message || 'Oportunidade nao encontrada' };
+    }
+
+    console.log(`✅ Opportunity updated: ${opportunityId}`, fields.value);
+    return { success: true, message: 'Oportunidade atualizada', data: opportunity };
+  },
+};
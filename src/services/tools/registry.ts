@@ -0,0 +1,127 @@
+// src/services/tools/registry.ts
+// Registro de tools do agente AI
+//
+// Cada tool é um módulo com schema (Anthropic.Tool), permissão e handler.
+// O agente expõe apenas as tools habilitadas em ai_agents.enabled_tools, que aceita
+// nomes de tools ou permissões inteiras (ex: 'contacts:write'). NULL = tools padrão.
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { InteractiveMessage } from '../../types/whatsapp-messages.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export type ToolPermission =
+  | 'contacts:write'
+  | 'meetings:write'
+  | 'memories:write'
+  | 'messages:interactive'
+  | 'opportunities:write'
+  | 'threads:handoff';
+
+// Estado compartilhado entre as tools de um mesmo turno do agente
+export interface ToolTurnState {
+  // Formato interativo da resposta final (definido por reply_with_options)
+  replyInteractive?: InteractiveMessage;
+}
+
+export interface ToolContext {
+  contactId: string;
+  organizationId: string;
+  threadId: string;
+  agentId: string;
+  turn: ToolTurnState;
+  // Avaliação offline: nada sai para o cliente nem muda o handoff
+  dryRun?: boolean;
+}
+
+export interface ToolResult {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+export interface AgentTool {
+  definition: Anthropic.Tool;
+  permission: ToolPermission;
+  // Habilitada quando o agente não define enabled_tools
+  enabledByDefault: boolean;
+  // Depende da configuração da organização (config_values da integração claude-ai)
+  isAvailable?(claudeConfig: Record<string, unknown> | null): boolean;
+  execute(args: any, context: ToolContext): Promise<ToolResult>;
+}
+
+// =============================================================================
+// REGISTRO
+// =============================================================================
+
+const tools = new Map<string, AgentTool>();
+
+/**
+ * Registra uma tool (nomes duplicados são um erro de programação)
+ */
+export function registerTool(tool: AgentTool): void {
+  const name = tool.definition.name;
+  if (tools.has(name)) {
+    throw new Error(`Tool already registered: ${name}`);
+  }
+  tools.set(name, tool);
+}
+
+/**
+ * Todas as tools registradas
+ */
+export function listTools(): AgentTool[] {
+  return [...tools.values()];
+}
+
+/**
+ * Tools habilitadas para um agente
+ * enabled_tools pode conter nomes de tools ou permissões; entradas desconhecidas são ignoradas
+ * Tools indisponíveis para a organização (isAvailable) nunca são oferecidas ao modelo
+ */
+export function getAgentTools(
+  enabledTools: string[] | null | undefined,
+  claudeConfig: Record<string, unknown> | null = null
+): AgentTool[] {
+  const available = listTools().filter(t => !t.isAvailable || t.isAvailable(claudeConfig));
+
+  if (!enabledTools) {
+    return available.filter(t => t.enabledByDefault);
+  }
+
+  const enabled = new Set(enabledTools);
+  const unknown = enabledTools.filter(
+    entry => !tools.has(entry) && !listTools().some(t => t.permission === entry)
+  );
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Unknown tools in enabled_tools: ${unknown.join(', ')}`);
+  }
+
+  return available.filter(t => enabled.has(t.definition.name) || enabled.has(t.permission));
+}
+
+/**
+ * Executa uma tool, apenas se ela estiver entre as tools do agente
+ */
+export async function executeAgentTool(
+  toolName: string,
+  args: any,
+  context: ToolContext,
+  agentTools: AgentTool[]
+): Promise<ToolResult> {
+  console.log(`🔧 Executing tool: ${toolName}`, args);
+
+  const tool = agentTools.find(t => t.definition.name === toolName);
+  if (!tool) {
+    return { success: false, message: `Tool desconhecida: ${toolName}` };
+  }
+
+  try {
+    return await tool.execute(args, context);
+  } catch (error) {
+    console.error(`Error executing tool ${toolName}:`, error);
+    return { success: false, message: error instanceof Error ? error.message : 'Erro desconhecido' };
+  }
+}
@@ -0,0 +1,118 @@
+// src/services/tools/scheduling-tools.ts
+// Tools de agendamento: propor horários livres e reservar o escolhido
+
+import { sendWhatsAppMessage } from '../whatsapp.js';
+import {
+  listFreeSlots,
+  findProposedSlot,
+  bookSlot,
+  buildSlotListMessage,
+  formatSlotLabel,
+  sendMeetingConfirmation,
+  SlotUnavailableError,
+} from '../scheduling.js';
+import type { AgentTool } from './registry.js';
+
+export const proposeMeetingSlotsTool: AgentTool = {
+  permission: 'meetings:write',
+  enabledByDefault: false,
+  definition: {
+    name: "propose_meeting_slots",
+    description: `Envia ao cliente uma lista do WhatsApp com os proximos horarios livres para uma reuniao/ligacao.
+
+Use quando o cliente aceitar marcar uma conversa. A lista ja e enviada com o texto de "message";
+depois disso NAO repita os horarios na sua resposta.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        message: { type: "string", description: "Texto curto que acompanha a lista (ex: 'Qual horario fica melhor pra voce?')" },
+        days_ahead: { type: "number", description: "Quantos dias a frente buscar (padrao: 14)" },
+      },
+      required: ["message"],
+    },
+  },
+
+  async execute(args, context) {
+    const slots = await listFreeSlots(context.organizationId, {
+      daysAhead: typeof args.days_ahead === 'number' && args.days_ahead > 0 ? args.days_ahead : undefined,
+    });
+
+    if (slots.length === 0) {
+      return { success: false, message: 'Nenhum horario livre nos proximos dias. Ofereca transferir para um atendente.' };
+    }
+
+    if (!context.dryRun) {
+      await sendWhatsAppMessage({
+        threadId: context.threadId,
+        organizationId: context.organizationId,
+        content: args.message,
+        interactive: buildSlotListMessage(slots, args.message || 'Qual horário fica melhor pra você?'),
+        fallbackTemplateId: null, // janela já checada no início do turno
+      });
+    }
+
+    console.log(`📅 Proposed ${slots.length} slot(s) to thread ${context.threadId}`);
+    return {
+      success: true,
+      message: 'Lista de horarios enviada ao cliente. Aguarde a escolha e use book_meeting.',
+      data: { slots: slots.map(s => ({ slot_id: s.id, label: formatSlotLabel(s.starts_at) })) },
+    };
+  },
+};
+
+export const bookMeetingTool: AgentTool = {
+  permission: 'meetings:write',
+  enabledByDefault: false,
+  definition: {
+    name: "book_meeting",
+    description: `Reserva o horario escolhido pelo cliente e envia a confirmacao.
+
+Informe em "slot" o slot_id retornado por propose_meeting_slots ou o texto do horario que o cliente escolheu na lista.
+Se o horario nao estiver mais livre, proponha novos horarios.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        slot: { type: "string", description: "slot_id ou texto do horario escolhido (ex: 'ter., 21/10 às 14:00')" },
+        notes: { type: "string", description: "Assunto/contexto da reuniao para o vendedor (opcional)" },
+      },
+      required: ["slot"],
+    },
+  },
+
+  async execute(args, context) {
+    if (!args.slot) {
+      return { success: false, message: 'Informe o horario escolhido' };
+    }
+
+    const slot = await findProposedSlot(context.organizationId, String(args.slot));
+    if (!slot) {
+      return { success: false, message: 'Horario nao encontrado ou nao esta mais livre. Use propose_meeting_slots novamente.' };
+    }
+
+    try {
+      const meeting = await bookSlot({
+        organizationId: context.organizationId,
+        slotId: slot.id,
+        contactId: context.contactId,
+        threadId: context.threadId,
+        notes: args.notes,
+        dryRun: context.dryRun,
+      });
+
+      if (!context.dryRun) {
+        await sendMeetingConfirmation(meeting);
+      }
+
+      return {
+        success: true,
+        message: 'Reuniao agendada e confirmacao enviada ao cliente. Nao repita a confirmacao.',
+        data: { meeting_id: meeting.id, starts_at: meeting.starts_at, label: formatSlotLabel(meeting.starts_at) },
+      };
+    } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return { success: false, message: 'Esse horario acabou de ser reservado. Use propose_meeting_slots novamente.' };
+      }
+      throw error;
+    }
+  },
+};
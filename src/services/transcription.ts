@@ -0,0 +1,183 @@
+// src/services/transcription.ts
+// Transcrição de áudios (voice notes) recebidos no WhatsApp
+//
+// Providers são plugáveis: cada um implementa TranscriptionProvider e é
+// selecionado por TRANSCRIPTION_PROVIDER (padrão: openai).
+
+import { supabase, type MediaAttachment } from '../lib/supabase.js';
+import { env } from '../config/env.js';
+import { getTwilioWebhookConfig } from '../lib/twilio-signature.js';
+import { fetchAttachmentContent } from './media-storage.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface AudioInput {
+  buffer: Buffer;
+  contentType: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  provider: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: AudioInput, options?: { language?: string }): Promise<TranscriptionResult>;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const OPENAI_API_URL = 'https://api.openai.com/v1';
+const WHISPER_MODEL = 'whisper-1';
+const DEFAULT_LANGUAGE = 'pt';
+export const TRANSCRIPTION_LABEL = '[Áudio do cliente transcrito]';
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+/**
+ * OpenAI Whisper
+ */
+export function createOpenAITranscriptionProvider(apiKey: string): TranscriptionProvider {
+  return {
+    name: 'openai',
+    async transcribe(audio, options) {
+      const extension = audio.contentType.split('/')[1]?.split(';')[0] || 'ogg';
+
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(audio.buffer)], { type: audio.contentType }), `audio.${extension}`);
+      form.append('model', WHISPER_MODEL);
+      form.append('language', options?.language || DEFAULT_LANGUAGE);
+
+      const response = await fetch(`${OPENAI_API_URL}/audio/transcriptions`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+        body: form,
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`OpenAI transcription error (${response.status}): ${error}`);
+      }
+
+      const data = await response.json() as { text?: string };
+      return {
+        text: (data.text || '').trim(),
+        language: options?.language || DEFAULT_LANGUAGE,
+        provider: 'openai',
+      };
+    },
+  };
+}
+
+/**
+ * Provider local para testes/desenvolvimento (não chama nenhuma API)
+ */
+export function createStubTranscriptionProvider(
+  text: string = '[transcrição de teste]'
+): TranscriptionProvider {
+  return {
+    name: 'stub',
+    async transcribe(audio, options) {
+      return {
+        text: `${text} (${audio.buffer.length} bytes)`,
+        language: options?.language || DEFAULT_LANGUAGE,
+        provider: 'stub',
+      };
+    },
+  };
+}
+
+const providerFactories: Record<string, () => TranscriptionProvider | null> = {
+  openai: () => env.OPENAI_API_KEY ? createOpenAITranscriptionProvider(env.OPENAI_API_KEY) : null,
+  stub: () => createStubTranscriptionProvider(),
+};
+
+/**
+ * Registra um provider adicional (ex: Deepgram, AssemblyAI)
+ */
+export function registerTranscriptionProvider(name: string, factory: () => TranscriptionProvider | null): void {
+  providerFactories[name] = factory;
+}
+
+/**
+ * Retorna o provider configurado, ou null se indisponível
+ */
+export function getTranscriptionProvider(
+  name: string = env.TRANSCRIPTION_PROVIDER
+): TranscriptionProvider | null {
+  const factory = providerFactories[name];
+  if (!factory) {
+    console.error(`❌ Unknown transcription provider: ${name}`);
+    return null;
+  }
+  return factory();
+}
+
+// =============================================================================
+// TRANSCRIÇÃO DE MENSAGENS
+// =============================================================================
+
+/**
+ * Transcreve os áudios de uma mensagem e salva o texto em messages.transcription
+ * Retorna a transcrição (ou null se não houver áudio / provider indisponível)
+ */
+export async function transcribeMessageAudio(
+  message: { id: string; attachments: MediaAttachment[] },
+  organizationId: string,
+  provider: TranscriptionProvider | null = getTranscriptionProvider()
+): Promise<string | null> {
+  const audios = message.attachments.filter(a => a.media_type === 'audio');
+  if (audios.length === 0) return null;
+
+  if (!provider) {
+    console.warn('⚠️ No transcription provider configured, skipping audio');
+    return null;
+  }
+
+  const config = await getTwilioWebhookConfig(organizationId);
+  const texts: string[] = [];
+
+  for (const audio of audios) {
+    const content = await fetchAttachmentContent(audio, config);
+    const result = await provider.transcribe(content);
+    if (result.text) {
+      texts.push(result.text);
+    }
+  }
+
+  const transcription = texts.join('\n');
+  console.log(`🎙️ Transcribed ${audios.length} audio(s) via ${provider.name}: "${transcription.substring(0, 80)}..."`);
+
+  const { error } = await supabase
+    .from('messages')
+    .update({ transcription })
+    .eq('id', message.id)
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    console.error('❌ Error saving transcription:', error);
+  }
+
+  return transcription;
+}
+
+/**
+ * Texto de uma mensagem do histórico com a transcrição dos áudios
+ */
+export function withTranscription(
+  content: string | null | undefined,
+  transcription: string | null | undefined
+): string {
+  const text = content || '';
+  if (!transcription) return text;
+  const transcript = `${TRANSCRIPTION_LABEL}: ${transcription}`;
+  return text ? `${transcript}\n${text}` : transcript;
+}
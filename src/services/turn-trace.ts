@@ -0,0 +1,177 @@
+// src/services/turn-trace.ts
+// Trace de cada turno do agente AI (debug no CRM)
+//
+// Um turno = uma execução de processAIMessage. O id do trace é o mesmo ai_turn_id
+// gravado nas mensagens enviadas, então dá para ir da mensagem errada ao trace:
+// seções do system prompt, chunks do RAG (com scores), tools chamadas e seus
+// resultados, chamadas ao modelo (latência/tokens) e a resposta final.
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { supabase } from '../lib/supabase.js';
+import type { RAGContext } from './rag.js';
+import type { ToolResult } from './tools/index.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+// skipped = turno encerrado sem chamar o modelo (ver reason)
+export type TurnTraceStatus = 'completed' | 'failed' | 'skipped';
+
+export interface TraceLLMCall {
+  model: string;
+  stop_reason: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+}
+
+export interface TraceToolCall {
+  name: string;
+  input: unknown;
+  result: ToolResult;
+  latency_ms: number;
+}
+
+export interface TurnTrace {
+  id: string; // = messages.ai_turn_id
+  organization_id: string;
+  thread_id: string;
+  agent_id: string;
+  contact_id: string;
+  started_at: number;
+  model?: string;
+  system_prompt?: string;
+  prompt_sections: Record<string, string | null>;
+  rag_chunks: Array<Pick<RAGContext, 'id' | 'title' | 'scope' | 'category' | 'similarity' | 'rerank_score'>>;
+  llm_calls: TraceLLMCall[];
+  tool_calls: TraceToolCall[];
+  response?: string;
+  reason?: string; // motivo de um turno skipped
+  message_ids: string[];
+}
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Inicia o trace de um turno
+ */
+export function startTurnTrace(input: {
+  id: string;
+  organizationId: string;
+  threadId: string;
+  agentId: string;
+  contactId: string;
+}): TurnTrace {
+  return {
+    id: input.id,
+    organization_id: input.organizationId,
+    thread_id: input.threadId,
+    agent_id: input.agentId,
+    contact_id: input.contactId,
+    started_at: Date.now(),
+    prompt_sections: {},
+    rag_chunks: [],
+    llm_calls: [],
+    tool_calls: [],
+    message_ids: [],
+  };
+}
+
+/**
+ * Registra os chunks do RAG escolhidos (sem o conteúdo, que já está no prompt)
+ */
+export function traceRAGChunks(trace: TurnTrace, contexts: RAGContext[]): void {
+  trace.rag_chunks = contexts.map(({ id, title, scope, category, similarity, rerank_score }) => ({
+    id, title, scope, category, similarity, rerank_score,
+  }));
+}
+
+/**
+ * Registra uma chamada ao modelo
+ */
+export function traceLLMCall(
+  trace: TurnTrace,
+  response: Pick<Anthropic.Message, 'model' | 'stop_reason' | 'usage'>,
+  startedAt: number
+): void {
+  trace.llm_calls.push({
+    model: response.model,
+    stop_reason: response.stop_reason,
+    input_tokens: response.usage.input_tokens,
+    output_tokens: response.usage.output_tokens,
+    latency_ms: Date.now() - startedAt,
+  });
+}
+
+/**
+ * Registra uma chamada de tool e o resultado devolvido ao modelo
+ */
+export function traceToolCall(
+  trace: TurnTrace,
+  name: string,
+  input: unknown,
+  result: ToolResult,
+  startedAt: number
+): void {
+  trace.tool_calls.push({ name, input, result, latency_ms: Date.now() - startedAt });
+}
+
+/**
+ * Grava o trace (falha ao gravar nunca afeta a resposta)
+ * Upsert: um retry do turno reusa o mesmo id e sobrescreve a tentativa anterior
+ */
+export async function saveTurnTrace(
+  trace: TurnTrace,
+  status: TurnTraceStatus,
+  error?: unknown
+): Promise<void> {
+  const { error: insertError } = await supabase.from('ai_turn_traces').upsert({
+    id: trace.id,
+    organization_id: trace.organization_id,
+    thread_id: trace.thread_id,
+    agent_id: trace.agent_id,
+    contact_id: trace.contact_id,
+    status,
+    model: trace.model || null,
+    system_prompt: trace.system_prompt || null,
+    prompt_sections: trace.prompt_sections,
+    rag_chunks: trace.rag_chunks,
+    llm_calls: trace.llm_calls,
+    tool_calls: trace.tool_calls,
+    response: trace.response || null,
+    reason: trace.reason || null,
+    message_ids: trace.message_ids,
+    input_tokens: trace.llm_calls.reduce((sum, call) => sum + call.input_tokens, 0),
+    output_tokens: trace.llm_calls.reduce((sum, call) => sum + call.output_tokens, 0),
+    latency_ms: Date.now() - trace.started_at,
+    error: error ? (error instanceof Error ? error.message : String(error)) : null,
+  }, { onConflict: 'id' });
+
+  if (insertError) {
+    console.error('❌ Failed to save turn trace:', insertError.message);
+  } else {
+    console.log(`🧾 Turn trace saved: ${trace.id} (${status})`);
+  }
+}
+
+/**
+ * Fecha o trace de um turno retomado (partes já gravadas, sem nova chamada ao modelo)
+ */
+export async function completeTurnTrace(
+  organizationId: string,
+  turnId: string,
+  messageIds: string[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('ai_turn_traces')
+    .update({ status: 'completed', message_ids: messageIds, error: null })
+    .eq('id', turnId)
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    console.error('❌ Failed to complete turn trace:', error.message);
+  }
+}
@@ -0,0 +1,253 @@
+// src/services/usage.ts
+// Medição de uso de AI (Anthropic + Voyage) e orçamento mensal por organização
+//
+// Cada chamada vira uma linha em ai_usage_events (org, agente, thread, tokens, custo
+// estimado). O orçamento fica no config_values da integração claude-ai:
+//   monthly_budget_usd: 200          (sem valor = sem limite)
+//   budget_soft_limit_percent: 80    (acima: modelo mais barato)
+// Ao atingir 100%, a AI para de responder e a thread vai para um humano.
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { supabase } from '../lib/supabase.js';
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface UsageContext {
+  organizationId: string;
+  agentId?: string;
+  threadId?: string;
+}
+
+export type UsageKind = 'completion' | 'embedding' | 'rerank';
+
+export type BudgetStatus = 'ok' | 'soft_limit' | 'hard_limit';
+
+export interface BudgetCheck {
+  status: BudgetStatus;
+  budgetUsd: number | null;
+  spentUsd: number;
+  softLimitPercent: number;
+}
+
+export interface UsageSummaryRow {
+  agent_id: string | null;
+  provider: string;
+  kind: UsageKind;
+  model: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  embedding_tokens: number;
+  rerank_tokens: number;
+  rerank_calls: number;
+  cost_usd: number;
+}
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+// USD por milhão de tokens (input / output)
+const ANTHROPIC_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+];
+const DEFAULT_ANTHROPIC_PRICING = { input: 3, output: 15 };
+
+// USD por milhão de tokens
+const VOYAGE_PRICING: Record<string, number> = {
+  'voyage-3': 0.06,
+  'rerank-2': 0.05,
+};
+
+// Modelo usado acima do limite suave do orçamento
+export const BUDGET_DEGRADED_MODEL = 'claude-3-5-haiku-20241022';
+const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+
+// =============================================================================
+// CUSTO
+// =============================================================================
+
+export function estimateAnthropicCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = ANTHROPIC_PRICING.find(p => model.startsWith(p.prefix)) || DEFAULT_ANTHROPIC_PRICING;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+export function estimateVoyageCost(model: string, tokens: number): number {
+  return (tokens * (VOYAGE_PRICING[model] ?? 0)) / 1_000_000;
+}
+
+// =============================================================================
+// REGISTRO
+// =============================================================================
+
+async function insertUsageEvent(context: UsageContext, event: {
+  provider: 'anthropic' | 'voyage';
+  kind: UsageKind;
+  model: string;
+  purpose: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  embedding_tokens?: number;
+  rerank_tokens?: number;
+  rerank_calls?: number;
+  cost_usd: number;
+}): Promise<void> {
+  // Falha ao medir nunca impede a resposta
+  const { error } = await supabase.from('ai_usage_events').insert({
+    organization_id: context.organizationId,
+    agent_id: context.agentId || null,
+    thread_id: context.threadId || null,
+    ...event,
+  });
+
+  if (error) {
+    console.error('❌ Failed to record AI usage:', error.message);
+  }
+}
+
+/**
+ * Registra o uso de uma chamada messages.create
+ */
+export async function recordAnthropicUsage(
+  context: UsageContext,
+  response: Pick<Anthropic.Message, 'model' | 'usage'>,
+  purpose: string
+): Promise<void> {
+  const inputTokens = response.usage.input_tokens;
+  const outputTokens = response.usage.output_tokens;
+
+  await insertUsageEvent(context, {
+    provider: 'anthropic',
+    kind: 'completion',
+    model: response.model,
+    purpose,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cost_usd: estimateAnthropicCost(response.model, inputTokens, outputTokens),
+  });
+}
+
+/**
+ * Registra o uso de uma chamada da Voyage (embedding ou rerank)
+ */
+export async function recordVoyageUsage(
+  context: UsageContext,
+  kind: 'embedding' | 'rerank',
+  model: string,
+  tokens: number
+): Promise<void> {
+  await insertUsageEvent(context, {
+    provider: 'voyage',
+    kind,
+    model,
+    purpose: 'rag',
+    embedding_tokens: kind === 'embedding' ? tokens : 0,
+    rerank_tokens: kind === 'rerank' ? tokens : 0,
+    rerank_calls: kind === 'rerank' ? 1 : 0,
+    cost_usd: estimateVoyageCost(model, tokens),
+  });
+}
+
+// =============================================================================
+// RELATÓRIO E ORÇAMENTO
+// =============================================================================
+
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Uso agregado por agente/provedor/tipo/modelo no período
+ */
+export async function getUsageSummary(
+  organizationId: string,
+  from: Date,
+  to: Date
+): Promise<UsageSummaryRow[]> {
+  const { data, error } = await supabase.rpc('ai_usage_summary', {
+    p_org_id: organizationId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to load AI usage: ${error.message}`);
+  }
+
+  return (data || []).map((row: UsageSummaryRow) => ({ ...row, cost_usd: Number(row.cost_usd) }));
+}
+
+/**
+ * Lê o orçamento mensal do config_values da integração claude-ai
+ */
+export function getBudgetConfig(
+  claudeConfig: Record<string, unknown> | null | undefined
+): { budgetUsd: number | null; softLimitPercent: number } {
+  const budget = Number(claudeConfig?.monthly_budget_usd);
+  const softLimit = Number(claudeConfig?.budget_soft_limit_percent);
+
+  return {
+    budgetUsd: Number.isFinite(budget) && budget > 0 ? budget : null,
+    softLimitPercent: Number.isFinite(softLimit) && softLimit > 0 && softLimit <= 100
+      ? softLimit
+      : DEFAULT_SOFT_LIMIT_PERCENT,
+  };
+}
+
+/**
+ * Verifica o gasto do mês contra o orçamento da organização
+ */
+export async function checkBudget(
+  organizationId: string,
+  claudeConfig: Record<string, unknown> | null | undefined
+): Promise<BudgetCheck> {
+  const { budgetUsd, softLimitPercent } = getBudgetConfig(claudeConfig);
+
+  if (budgetUsd === null) {
+    return { status: 'ok', budgetUsd, spentUsd: 0, softLimitPercent };
+  }
+
+  let spentUsd: number;
+  try {
+    const rows = await getUsageSummary(organizationId, getMonthStart(), new Date());
+    spentUsd = rows.reduce((sum, row) => sum + row.cost_usd, 0);
+  } catch (error) {
+    // Sem leitura do ledger a AI continua respondendo
+    console.error('❌ Budget check failed, allowing AI:', error);
+    return { status: 'ok', budgetUsd, spentUsd: 0, softLimitPercent };
+  }
+
+  let status: BudgetStatus = 'ok';
+  if (spentUsd >= budgetUsd) {
+    status = 'hard_limit';
+  } else if (spentUsd >= budgetUsd * (softLimitPercent / 100)) {
+    status = 'soft_limit';
+  }
+
+  return { status, budgetUsd, spentUsd, softLimitPercent };
+}
+
+/**
+ * Verifica o orçamento carregando a config da integração claude-ai
+ */
+export async function checkOrganizationBudget(organizationId: string): Promise<BudgetCheck> {
+  const { data } = await supabase
+    .from('organization_integrations')
+    .select(`
+      config_values,
+      admin_integrations!inner(slug)
+    `)
+    .eq('organization_id', organizationId)
+    .eq('admin_integrations.slug', 'claude-ai')
+    .eq('is_enabled', true)
+    .single();
+
+  return checkBudget(organizationId, data?.config_values as Record<string, unknown> | null);
+}
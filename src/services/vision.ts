@@ -0,0 +1,108 @@
+// src/services/vision.ts
+// Imagens recebidas no WhatsApp como content blocks para o Claude
+//
+// Apenas as imagens do batch atual são enviadas ao modelo; imagens de mensagens
+// antigas aparecem no histórico como placeholder de texto (contexto limitado).
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { MediaAttachment } from '../lib/supabase.js';
+import { getTwilioWebhookConfig } from '../lib/twilio-signature.js';
+import { fetchAttachmentContent } from './media-storage.js';
+
+// =============================================================================
+// CONFIGURAÇÕES
+// =============================================================================
+
+const MAX_IMAGES_PER_TURN = 5;
+const MAX_IMAGE_BASE64_BYTES = 5 * 1024 * 1024; // Limite da API da Anthropic por imagem (já em base64)
+
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+type SupportedImageType = typeof SUPPORTED_IMAGE_TYPES[number];
+
+export const IMAGE_HISTORY_PLACEHOLDER = '[Imagem enviada anteriormente]';
+
+// =============================================================================
+// FUNÇÕES
+// =============================================================================
+
+/**
+ * Tamanho do payload base64 (4 bytes a cada 3 do original, com padding)
+ */
+function base64Size(rawBytes: number): number {
+  return Math.ceil(rawBytes / 3) * 4;
+}
+
+/**
+ * Verifica se a organização habilitou visão no agente
+ * (config_values.vision_enabled da integração claude-ai)
+ */
+export function isVisionEnabled(claudeConfig: Record<string, unknown> | null | undefined): boolean {
+  return claudeConfig?.vision_enabled === true;
+}
+
+/**
+ * Baixa as imagens do batch e monta os content blocks para o Claude
+ * Ignora tipos não suportados e imagens acima do limite de tamanho
+ */
+export async function buildImageBlocks(
+  attachments: MediaAttachment[],
+  organizationId: string
+): Promise<Anthropic.ImageBlockParam[]> {
+  const images = attachments.filter(a => a.media_type === 'image');
+  if (images.length === 0) return [];
+
+  if (images.length > MAX_IMAGES_PER_TURN) {
+    console.log(`⚠️ ${images.length} images in batch, sending only the last ${MAX_IMAGES_PER_TURN}`);
+  }
+
+  const config = await getTwilioWebhookConfig(organizationId);
+  const blocks: Anthropic.ImageBlockParam[] = [];
+
+  for (const image of images.slice(-MAX_IMAGES_PER_TURN)) {
+    if (image.size_bytes && base64Size(image.size_bytes) > MAX_IMAGE_BASE64_BYTES) {
+      console.log(`⚠️ Skipping image over ${MAX_IMAGE_BASE64_BYTES} bytes in base64: ${image.url}`);
+      continue;
+    }
+
+    try {
+      const { buffer, contentType } = await fetchAttachmentContent(image, config);
+      const mime = contentType.split(';')[0].trim();
+
+      if (!SUPPORTED_IMAGE_TYPES.includes(mime as SupportedImageType)) {
+        console.log(`⚠️ Skipping unsupported image type: ${mime}`);
+        continue;
+      }
+
+      if (base64Size(buffer.length) > MAX_IMAGE_BASE64_BYTES) {
+        console.log(`⚠️ Skipping image over ${MAX_IMAGE_BASE64_BYTES} bytes in base64 (${buffer.length} raw)`);
+        continue;
+      }
+
+      blocks.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: mime as SupportedImageType,
+          data: buffer.toString('base64'),
+        },
+      });
+    } catch (error) {
+      console.error('❌ Error loading image for vision:', error);
+    }
+  }
+
+  console.log(`🖼️ Vision: ${blocks.length} image(s) attached to the turn`);
+  return blocks;
+}
+
+/**
+ * Texto de uma mensagem do histórico com placeholder para imagens
+ */
+export function withImagePlaceholder(
+  content: string | null | undefined,
+  mediaType: string | null | undefined
+): string {
+  const text = content || '';
+  if (mediaType !== 'image') return text;
+  return text ? `${IMAGE_HISTORY_PLACEHOLDER}\n${text}` : IMAGE_HISTORY_PLACEHOLDER;
+}
@@ -18,12 +18,15 @@ import {
   createLocationTemplate,
   createLocationRequestTemplate,
 } from './twilio-content.js';
+import { getTemplate, sendTemplateMessage } from './twilio-whatsapp-templates.js';
 
 interface WhatsAppConfig {
   account_sid: string;
   auth_token: string;
   messaging_service_sid?: string;
   whatsapp_number: string;
+  // Template aprovado enviado quando a janela de 24h está fechada
+  session_fallback_template_id?: string;
 }
 
 interface SendMessageOptions {
@@ -32,13 +35,147 @@ interface SendMessageOptions {
   content: string;
   buttons?: QuickReplyButton[];
   interactive?: InteractiveMessage;
+  // Linha já criada em messages (fila outbound) - atualizada em vez de inserir nova
+  messageId?: string;
+  // Atendente humano que enviou (sender_type 'user'); ausente = agente AI
+  senderUserId?: string;
+  // Template para reabrir a conversa se a janela de 24h estiver fechada
+  // (padrão: session_fallback_template_id da integração; null desabilita)
+  fallbackTemplateId?: string | null;
+  // Turno do agente AI que gerou a mensagem (resposta dividida em várias partes)
+  aiTurn?: { id: string; segment: number; segments: number };
 }
 
-interface SendMessageResult {
+// Contato da thread (join contacts!inner)
+export interface SessionContact {
+  phone: string;
+  full_name?: string | null;
+  first_name?: string | null;
+}
+
+export interface SessionWindowState {
+  open: boolean;
+  lastInboundAt: string | null;
+  contact: SessionContact;
+  // session_fallback_template_id da integração (null = sem fallback)
+  fallbackTemplateId: string | null;
+}
+
+// Parte de uma resposta do agente (interativa só na última)
+export interface ReplySegment {
+  text: string;
+  interactive?: InteractiveMessage;
+}
+
+// Parte gravada em messages com o ai_turn_id do turno
+export interface TurnSegment extends ReplySegment {
+  messageId: string;
+  index: number;
+  count: number;
+  sent: boolean;
+}
+
+export interface SendMessageResult {
   messageSid: string;
   savedMessageId: string;
   status: 'sent' | 'failed';
   error?: string;
+  errorCode?: string;
+  fallbackTemplateUsed?: boolean;
+}
+
+/**
+ * Janela de 24h fechada: o WhatsApp só aceita templates aprovados
+ * (o Twilio rejeitaria a mensagem livre com erro 63016)
+ */
+export class SessionWindowClosedError extends Error {
+  readonly code = 'session_window_closed';
+
+  constructor(
+    readonly threadId: string,
+    readonly lastInboundAt: string | null
+  ) {
+    super(`WhatsApp 24h session window closed for thread ${threadId} (last inbound: ${lastInboundAt || 'never'})`);
+    this.name = 'SessionWindowClosedError';
+  }
+}
+
+// Janela de atendimento do WhatsApp: mensagens livres só até 24h após a última mensagem do cliente
+export const WHATSAPP_SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Verifica se a janela de 24h de atendimento está aberta
+ */
+export function isWithinSessionWindow(lastInboundAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!lastInboundAt) return false;
+  return now.getTime() - new Date(lastInboundAt).getTime() < WHATSAPP_SESSION_WINDOW_MS;
+}
+
+/**
+ * Busca a thread com o contato e a última mensagem do cliente
+ */
+async function getThreadSession(
+  threadId: string,
+  organizationId: string
+): Promise<{ contact: SessionContact; lastInboundAt: string | null }> {
+  const { data: thread, error: threadError } = await supabase
+    .from('message_threads')
+    .select(`
+      whatsapp_last_inbound_at,
+      contacts!inner(phone, full_name, first_name)
+    `)
+    .eq('id', threadId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (threadError || !thread) {
+    throw new Error(`Thread not found: ${threadId}`);
+  }
+
+  return {
+    contact: thread.contacts as unknown as SessionContact,
+    lastInboundAt: thread.whatsapp_last_inbound_at as string | null,
+  };
+}
+
+/**
+ * Busca configuração do Twilio WhatsApp da org
+ */
+async function getWhatsAppConfig(organizationId: string): Promise<WhatsAppConfig> {
+  const { data: integration, error: integrationError } = await supabase
+    .from('organization_integrations')
+    .select(`
+      config_values,
+      admin_integrations!inner(slug)
+    `)
+    .eq('organization_id', organizationId)
+    .eq('admin_integrations.slug', 'twilio-whatsapp')
+    .eq('is_enabled', true)
+    .single();
+
+  if (integrationError || !integration) {
+    throw new Error('WhatsApp integration not configured for organization');
+  }
+
+  return integration.config_values as WhatsAppConfig;
+}
+
+/**
+ * Estado da janela de 24h de uma thread e o template de fallback da org
+ * Usado para checar a janela uma vez antes de gerar a resposta (turno do agente, follow-up)
+ */
+export async function getSessionWindowState(threadId: string, organizationId: string): Promise<SessionWindowState> {
+  const [session, config] = await Promise.all([
+    getThreadSession(threadId, organizationId),
+    getWhatsAppConfig(organizationId),
+  ]);
+
+  return {
+    open: isWithinSessionWindow(session.lastInboundAt),
+    lastInboundAt: session.lastInboundAt,
+    contact: session.contact,
+    fallbackTemplateId: config.session_fallback_template_id || null,
+  };
 }
 
 /**
@@ -78,46 +215,38 @@ function convertMarkdownToWhatsApp(text: string): string {
  * Suporta mensagens de texto simples, botões quick reply legados, e mensagens interativas completas
  */
 export async function sendWhatsAppMessage(options: SendMessageOptions): Promise<SendMessageResult> {
-  const { threadId, organizationId, content, buttons, interactive } = options;
+  const { threadId, organizationId, content, buttons, interactive, messageId, senderUserId, aiTurn } = options;
 
   // 1. Buscar thread e contato
-  const { data: thread, error: threadError } = await supabase
-    .from('message_threads')
-    .select(`
-      id,
-      contact_id,
-      contacts!inner(phone)
-    `)
-    .eq('id', threadId)
-    .eq('organization_id', organizationId)
-    .single();
-
-  if (threadError || !thread) {
-    throw new Error(`Thread not found: ${threadId}`);
-  }
-
-  const customerPhone = (thread.contacts as any).phone;
+  const { contact, lastInboundAt } = await getThreadSession(threadId, organizationId);
+  const customerPhone = contact.phone;
 
   // 2. Buscar configuração WhatsApp da org
-  const { data: integration, error: integrationError } = await supabase
-    .from('organization_integrations')
-    .select(`
-      config_values,
-      admin_integrations!inner(slug)
-    `)
-    .eq('organization_id', organizationId)
-    .eq('admin_integrations.slug', 'twilio-whatsapp')
-    .eq('is_enabled', true)
-    .single();
+  const config = await getWhatsAppConfig(organizationId);
 
-  if (integrationError || !integration) {
-    throw new Error('WhatsApp integration not configured for organization');
+  if (!config.account_sid || !config.auth_token) {
+    throw new Error('Twilio credentials not configured');
   }
 
-  const config = integration.config_values as WhatsAppConfig;
+  // 2.1 Janela de 24h: fora dela, só template aprovado
+  if (!isWithinSessionWindow(lastInboundAt)) {
+    const fallbackTemplateId = options.fallbackTemplateId !== undefined
+      ? options.fallbackTemplateId
+      : config.session_fallback_template_id;
 
-  if (!config.account_sid || !config.auth_token) {
-    throw new Error('Twilio credentials not configured');
+    if (!fallbackTemplateId) {
+      await hideTypingIndicator(threadId, organizationId);
+      throw new SessionWindowClosedError(threadId, lastInboundAt);
+    }
+
+    return sendSessionFallbackTemplate({
+      organizationId,
+      threadId,
+      templateId: fallbackTemplateId,
+      contact,
+      queuedMessageId: messageId,
+      lastInboundAt,
+    });
   }
 
   // 3. Criar cliente Twilio
@@ -156,34 +285,51 @@ export async function sendWhatsAppMessage(options: SendMessageOptions): Promise<
     }
 
     // NOVO FLUXO: Salvar primeiro para obter content normalizado pelo trigger
-    // 1. Salvar mensagem com status 'sending'
+    // 1. Salvar mensagem com status 'sending' (ou reaproveitar a linha da fila outbound)
     console.log(`💾 Saving outbound message first (for trigger normalization)...`);
-    const { data: insertedMsg, error: saveError } = await supabase
-      .from('messages')
-      .insert({
-        organization_id: organizationId,
-        thread_id: threadId,
-        direction: 'outbound',
-        content: messageBody,
-        sender_type: 'agent',
-        whatsapp_status: 'sending',  // valores válidos: sending, sent, delivered, read, failed
-        ai_processed: true,
-        media_type: mediaUrl ? interactive?.media?.type : undefined,
-        media_urls: mediaUrl ? [mediaUrl] : undefined,
-        metadata: {
-          message_type: messageType,
-          interactive: interactive ? {
-            type: interactive.type,
-            has_buttons: !!interactive.quickReplyButtons?.length,
-            has_list: !!interactive.listSections?.length,
-            has_cta: !!interactive.ctaButtons?.length,
-            has_media: !!interactive.media,
-            has_location: !!interactive.location,
-          } : undefined,
-        },
-      })
-      .select('id, content')  // Buscar content normalizado pelo trigger
-      .single();
+    const messageRow = {
+      content: messageBody,
+      sender_type: senderUserId ? 'user' : 'agent',
+      sender_user_id: senderUserId,
+      whatsapp_status: 'sending',  // valores válidos: sending, sent, delivered, read, failed
+      error_code: null,
+      error_message: null,
+      ai_processed: true,
+      media_type: mediaUrl ? interactive?.media?.type : undefined,
+      media_urls: mediaUrl ? [mediaUrl] : undefined,
+      ai_turn_id: aiTurn?.id,
+      metadata: {
+        message_type: messageType,
+        ai_segment: aiTurn ? { index: aiTurn.segment, count: aiTurn.segments } : undefined,
+        interactive: interactive ? {
+          type: interactive.type,
+          has_buttons: !!interactive.quickReplyButtons?.length,
+          has_list: !!interactive.listSections?.length,
+          has_cta: !!interactive.ctaButtons?.length,
+          has_media: !!interactive.media,
+          has_location: !!interactive.location,
+        } : undefined,
+      },
+    };
+
+    const { data: insertedMsg, error: saveError } = messageId
+      ? await supabase
+        .from('messages')
+        .update(messageRow)
+        .eq('id', messageId)
+        .eq('organization_id', organizationId)
+        .select('id, content')
+        .single()
+      : await supabase
+        .from('messages')
+        .insert({
+          organization_id: organizationId,
+          thread_id: threadId,
+          direction: 'outbound',
+          ...messageRow,
+        })
+        .select('id, content')  // Buscar content normalizado pelo trigger
+        .single();
 
     if (saveError || !insertedMsg) {
       console.error('❌ Error saving outbound message:', saveError);
@@ -270,6 +416,7 @@ export async function sendWhatsAppMessage(options: SendMessageOptions): Promise<
       .update({
         whatsapp_message_sid: message.sid,
         whatsapp_status: 'sent',
+        sent_at: new Date().toISOString(),
       })
       .eq('id', savedMsg.id);
 
@@ -292,20 +439,24 @@ export async function sendWhatsAppMessage(options: SendMessageOptions): Promise<
   } catch (error) {
     console.error('❌ Error sending WhatsApp message:', error);
 
+    // Código de erro do Twilio (ex: 63016 = fora da janela de 24h)
+    const errorCode = (error as { code?: number | string })?.code?.toString();
+
     // Se a mensagem já foi salva (savedMsg existe), atualizar status para failed
     // Caso contrário, inserir nova mensagem com status failed
     let errorMessageId = '';
 
-    if (savedMsg?.id) {
+    if (savedMsg?.id || messageId) {
       // Atualizar mensagem existente com erro
+      errorMessageId = (savedMsg?.id || messageId)!;
       await supabase
         .from('messages')
         .update({
           whatsapp_status: 'failed',
+          error_code: errorCode,
           error_message: error instanceof Error ? error.message : 'Unknown error',
         })
-        .eq('id', savedMsg.id);
-      errorMessageId = savedMsg.id;
+        .eq('id', errorMessageId);
     } else {
       // Salvar nova mensagem com erro (caso erro tenha ocorrido antes do insert)
       const { data: errorMsg } = await supabase
@@ -315,8 +466,10 @@ export async function sendWhatsAppMessage(options: SendMessageOptions): Promise<
           thread_id: threadId,
           direction: 'outbound',
           content: messageBody,
-          sender_type: 'agent',
+          sender_type: senderUserId ? 'user' : 'agent',
+          sender_user_id: senderUserId,
           whatsapp_status: 'failed',
+          error_code: errorCode,
           error_message: error instanceof Error ? error.message : 'Unknown error',
           ai_processed: true,
         })
@@ -340,10 +493,204 @@ export async function sendWhatsAppMessage(options: SendMessageOptions): Promise<
       savedMessageId: errorMessageId,
       status: 'failed',
       error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode,
     };
   }
 }
 
+/**
+ * Envia o template aprovado configurado para reabrir a conversa (janela de 24h fechada)
+ * A mensagem livre original não é entregue: se já estava na fila, fica como failed
+ */
+async function sendSessionFallbackTemplate(params: {
+  organizationId: string;
+  threadId: string;
+  templateId: string;
+  contact: SessionContact;
+  queuedMessageId?: string;
+  lastInboundAt: string | null;
+}): Promise<SendMessageResult> {
+  const { organizationId, threadId, templateId, contact, queuedMessageId, lastInboundAt } = params;
+
+  const template = await getTemplate(organizationId, templateId);
+  if (!template || !template.is_active || template.status !== 'approved') {
+    console.error(`❌ Fallback template ${templateId} is not an active approved template`);
+    await hideTypingIndicator(threadId, organizationId);
+    throw new SessionWindowClosedError(threadId, lastInboundAt);
+  }
+
+  console.log(`🔒 Session window closed, sending fallback template "${template.friendly_name}"`);
+
+  const contactName = contact.first_name || contact.full_name?.split(' ')[0] || '';
+  const result = await sendTemplateMessage(organizationId, {
+    to: contact.phone,
+    template_id: templateId,
+    variables: template.body.includes('{{1}}') ? { '1': contactName || 'tudo bem' } : undefined,
+    thread_id: threadId,
+  });
+
+  if (queuedMessageId) {
+    await supabase
+      .from('messages')
+      .update({
+        whatsapp_status: 'failed',
+        error_code: 'session_window_closed',
+        error_message: `Janela de 24h fechada - template "${template.friendly_name}" enviado para reabrir a conversa`,
+      })
+      .eq('id', queuedMessageId)
+      .eq('organization_id', organizationId);
+  }
+
+  await hideTypingIndicator(threadId, organizationId);
+
+  return {
+    messageSid: result.whatsappSid,
+    savedMessageId: result.messageId,
+    status: 'sent',
+    fallbackTemplateUsed: true,
+  };
+}
+
+/**
+ * Janela de 24h fechada antes de gerar a resposta: reabre a conversa com o template
+ * de fallback da org. Retorna null se não há template válido (não lança)
+ */
+export async function reopenSessionWindow(
+  threadId: string,
+  organizationId: string,
+  state: SessionWindowState
+): Promise<SendMessageResult | null> {
+  if (!state.fallbackTemplateId) {
+    console.warn(`🔒 Session window closed for thread ${threadId} and no session_fallback_template_id configured`);
+    await hideTypingIndicator(threadId, organizationId);
+    return null;
+  }
+
+  try {
+    return await sendSessionFallbackTemplate({
+      organizationId,
+      threadId,
+      templateId: state.fallbackTemplateId,
+      contact: state.contact,
+      lastInboundAt: state.lastInboundAt,
+    });
+  } catch (error) {
+    if (error instanceof SessionWindowClosedError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Grava a resposta do agente dividida em partes (uma linha 'sending' por parte)
+ *
+ * A resposta inteira passa antes pelo trigger de normalização e pela conversão de
+ * Markdown, e só então é dividida: os limites valem para o texto que sai de fato.
+ * As linhas levam o ai_turn_id, então um retry do turno só envia o que faltou.
+ */
+export async function saveTurnSegments(params: {
+  threadId: string;
+  organizationId: string;
+  turnId: string;
+  content: string;
+  split: (text: string) => ReplySegment[];
+}): Promise<TurnSegment[]> {
+  const { threadId, organizationId, turnId, content, split } = params;
+  const baseRow = {
+    organization_id: organizationId,
+    thread_id: threadId,
+    direction: 'outbound',
+    sender_type: 'agent',
+    whatsapp_status: 'sending',
+    ai_processed: true,
+    ai_turn_id: turnId,
+  };
+
+  const { data: saved, error: saveError } = await supabase
+    .from('messages')
+    .insert({ ...baseRow, content })
+    .select('id, content')  // content normalizado pelo trigger
+    .single();
+
+  if (saveError || !saved) {
+    throw new Error(`Failed to save AI reply: ${saveError?.message}`);
+  }
+
+  const whatsappContent = convertMarkdownToWhatsApp(saved.content);
+  const parts = split(whatsappContent);
+  if (parts.length === 0) parts.push({ text: whatsappContent });
+
+  const segmentFields = (part: ReplySegment, index: number) => ({
+    content: part.text,
+    metadata: {
+      ai_segment: { index, count: parts.length },
+      pending_interactive: part.interactive,
+    },
+  });
+
+  const { error: updateError } = await supabase
+    .from('messages')
+    .update(segmentFields(parts[0], 1))
+    .eq('id', saved.id)
+    .eq('organization_id', organizationId);
+
+  if (updateError) {
+    throw new Error(`Failed to save AI reply segment: ${updateError.message}`);
+  }
+
+  if (parts.length > 1) {
+    const { error: insertError } = await supabase
+      .from('messages')
+      .insert(parts.slice(1).map((part, i) => ({ ...baseRow, ...segmentFields(part, i + 2) })));
+
+    if (insertError) {
+      throw new Error(`Failed to save AI reply segments: ${insertError.message}`);
+    }
+  }
+
+  return getTurnSegments(organizationId, turnId);
+}
+
+/**
+ * Partes já gravadas de um turno do agente, em ordem (sent = aceita pelo Twilio)
+ */
+export async function getTurnSegments(organizationId: string, turnId: string): Promise<TurnSegment[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, content, whatsapp_message_sid, metadata')
+    .eq('organization_id', organizationId)
+    .eq('ai_turn_id', turnId)
+    .eq('direction', 'outbound');
+
+  if (error) {
+    throw new Error(`Failed to load AI reply segments: ${error.message}`);
+  }
+
+  return (data || [])
+    .map(row => ({
+      messageId: row.id as string,
+      text: row.content as string,
+      interactive: row.metadata?.pending_interactive as InteractiveMessage | undefined,
+      index: Number(row.metadata?.ai_segment?.index) || 1,
+      count: Number(row.metadata?.ai_segment?.count) || 1,
+      sent: !!row.whatsapp_message_sid,
+    }))
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Marca como failed as partes que não vão mais sair (parte anterior falhou, janela fechou)
+ */
+export async function failTurnSegments(organizationId: string, segments: TurnSegment[], reason: string): Promise<void> {
+  const ids = segments.filter(s => !s.sent).map(s => s.messageId);
+  if (ids.length === 0) return;
+
+  await supabase
+    .from('messages')
+    .update({ whatsapp_status: 'failed', error_message: reason })
+    .eq('organization_id', organizationId)
+    .in('id', ids);
+}
+
 /**
  * Envia mensagem interativa baseada no tipo
  * Usa Content Templates do Twilio - não faz fallback para texto
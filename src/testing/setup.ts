@@ -0,0 +1,10 @@
+// src/testing/setup.ts
+// Variáveis de ambiente dos testes (importar ANTES de qualquer módulo do backend)
+//
+// env.ts exige as variáveis do Supabase ao carregar; nos testes as chamadas ao
+// Supabase são interceptadas no fetch e nada sai para a rede.
+
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test';
+process.env.WEBHOOK_BASE_URL ||= 'https://api.seialz.test';
+process.env.NODE_ENV ||= 'test';
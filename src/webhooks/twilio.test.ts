@@ -0,0 +1,230 @@
+import '../testing/setup.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify, { type FastifyInstance, type FastifyRequest } from 'fastify';
+import formbody from '@fastify/formbody';
+import { env } from '../config/env.js';
+import { checkTwilioSignature } from '../lib/twilio-signature.js';
+import { twilioWebhookRoutes } from './twilio.js';
+
+// =============================================================================
+// FIXTURES
+// =============================================================================
+
+const ORG_ID = '00000000-0000-4000-8000-000000000001';
+const AUTH_TOKEN = '4c2a1f0e9b8d7c6a5f4e3d2c1b0a9f8e';
+const STATUS_PATH = `/webhook/twilio/status?orgId=${ORG_ID}`;
+
+// Status callback do Twilio gravado (assinado com AUTH_TOKEN para https://api.seialz.test + STATUS_PATH)
+const STATUS_PAYLOAD = {
+  AccountSid: 'AC3f9c2e1d0b8a7f6e5d4c3b2a1f0e9d8c',
+  ApiVersion: '2010-04-01',
+  ChannelInstallSid: 'XE0a1b2c3d4e5f60718293a4b5c6d7e8f9',
+  ChannelPrefix: 'whatsapp',
+  ChannelToAddress: '+5511987654321',
+  From: 'whatsapp:+14155238886',
+  MessageSid: 'SM7d4e1c2b3a4f5e6d7c8b9a0f1e2d3c4b',
+  MessageStatus: 'delivered',
+  SmsSid: 'SM7d4e1c2b3a4f5e6d7c8b9a0f1e2d3c4b',
+  SmsStatus: 'delivered',
+  To: 'whatsapp:+5511987654321',
+};
+const STATUS_SIGNATURE = 'oIIPeGndqB/tTnF1nZCwSxLJbyw=';
+
+// =============================================================================
+// SUPABASE FAKE
+// =============================================================================
+
+type Row = Record<string, any>;
+
+/**
+ * Responde às chamadas PostgREST do cliente Supabase a partir de tabelas em memória
+ * Cobre só o que as rotas de webhook usam: GET/PATCH com filtros eq e .single()
+ */
+function installSupabaseFake(tables: Record<string, Row[]>): void {
+  const restBase = `${env.SUPABASE_URL}/rest/v1/`;
+
+  mock.method(globalThis, 'fetch', async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const table = url.href.startsWith(restBase) ? url.pathname.split('/').pop()! : '';
+    const rows = tables[table];
+    if (!rows) {
+      return Response.json({ message: `Unexpected request: ${url.href}` }, { status: 500 });
+    }
+
+    const filters = [...url.searchParams].filter(([key, value]) => key !== 'select' && value.startsWith('eq.'));
+    const matching = rows.filter(row => filters.every(([key, value]) => {
+      const actual = key.split('.').reduce<any>((current, part) => current?.[part], row);
+      return String(actual) === value.slice('eq.'.length);
+    }));
+
+    if (init.method === 'PATCH') {
+      const changes = JSON.parse(String(init.body));
+      matching.forEach(row => Object.assign(row, changes));
+      return new Response(null, { status: 204 });
+    }
+
+    const headers = new Headers(init.headers);
+    if (headers.get('accept')?.includes('vnd.pgrst.object')) {
+      return matching.length === 1
+        ? Response.json(matching[0])
+        : Response.json({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' }, { status: 406 });
+    }
+
+    return Response.json(matching);
+  });
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formBody(params: Record<string, string>): string {
+  return new URLSearchParams(params).toString();
+}
+
+function fakeRequest(headers: Record<string, string> = {}): FastifyRequest {
+  return { url: STATUS_PATH, headers, body: STATUS_PAYLOAD, protocol: 'https' } as unknown as FastifyRequest;
+}
+
+function withNodeEnv<T>(value: string, fn: () => T): T {
+  const mutableEnv = env as { NODE_ENV: string };
+  const previous = mutableEnv.NODE_ENV;
+  mutableEnv.NODE_ENV = value;
+  try {
+    return fn();
+  } finally {
+    mutableEnv.NODE_ENV = previous;
+  }
+}
+
+// =============================================================================
+// TESTES
+// =============================================================================
+
+describe('twilio webhooks', () => {
+  let tables: Record<string, Row[]>;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    tables = {
+      organization_integrations: [{
+        organization_id: ORG_ID,
+        is_enabled: true,
+        config_values: { account_sid: STATUS_PAYLOAD.AccountSid, auth_token: AUTH_TOKEN, whatsapp_number: '+14155238886' },
+        admin_integrations: { slug: 'twilio-whatsapp' },
+      }],
+      messages: [{
+        organization_id: ORG_ID,
+        whatsapp_message_sid: STATUS_PAYLOAD.MessageSid,
+        whatsapp_status: 'sent',
+      }],
+      whatsapp_templates: [{
+        id: 'tpl-1',
+        organization_id: ORG_ID,
+        twilio_content_sid: 'HX0a1b2c3d4e5f60718293a4b5c6d7e8f9',
+        friendly_name: 'boas_vindas',
+        status: 'pending',
+      }],
+    };
+    installSupabaseFake(tables);
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+
+    app = Fastify();
+    await app.register(formbody);
+    await twilioWebhookRoutes(app);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    mock.restoreAll();
+  });
+
+  function postStatus(payload: Record<string, string>, signature: string, path = STATUS_PATH) {
+    return app.inject({
+      method: 'POST',
+      url: path,
+      headers: { 'content-type': 'application/x-www-form-urlencoded', 'x-twilio-signature': signature },
+      payload: formBody(payload),
+    });
+  }
+
+  it('accepts the recorded signed status callback', async () => {
+    const response = await postStatus(STATUS_PAYLOAD, STATUS_SIGNATURE);
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(tables.messages[0].whatsapp_status, 'delivered');
+  });
+
+  it('rejects a tampered body with 403', async () => {
+    const response = await postStatus({ ...STATUS_PAYLOAD, MessageStatus: 'read' }, STATUS_SIGNATURE);
+
+    assert.equal(response.statusCode, 403);
+    assert.equal(tables.messages[0].whatsapp_status, 'sent');
+  });
+
+  it('rejects the signature replayed against another URL with 403', async () => {
+    const response = await postStatus(STATUS_PAYLOAD, STATUS_SIGNATURE, `${STATUS_PATH}&extra=1`);
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('rejects a request without signature with 403', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: STATUS_PATH,
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      payload: formBody(STATUS_PAYLOAD),
+    });
+
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('validates the content status signature before looking up the template', async () => {
+    const response = await postStatus(
+      { ContentSid: 'HX0a1b2c3d4e5f60718293a4b5c6d7e8f9', ApprovalStatus: 'approved' },
+      STATUS_SIGNATURE,
+      `/webhook/twilio/content-status?orgId=${ORG_ID}`
+    );
+
+    assert.equal(response.statusCode, 403);
+    assert.equal(tables.whatsapp_templates[0].status, 'pending');
+  });
+
+  it('skips validation for orgs with skip_signature_validation outside production', async () => {
+    tables.organization_integrations[0].config_values.skip_signature_validation = true;
+
+    const response = await postStatus({ ...STATUS_PAYLOAD, MessageStatus: 'read' }, 'not-a-signature');
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(tables.messages[0].whatsapp_status, 'read');
+  });
+});
+
+describe('checkTwilioSignature', () => {
+  it('accepts the recorded signature', () => {
+    const result = checkTwilioSignature(fakeRequest({ 'x-twilio-signature': STATUS_SIGNATURE }), { auth_token: AUTH_TOKEN });
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a signature made with another auth_token', () => {
+    const result = checkTwilioSignature(fakeRequest({ 'x-twilio-signature': STATUS_SIGNATURE }), { auth_token: 'other-token' });
+    assert.equal(result.valid, false);
+  });
+
+  it('honors skip_signature_validation outside production', () => {
+    const result = withNodeEnv('development', () =>
+      checkTwilioSignature(fakeRequest(), { auth_token: AUTH_TOKEN, skip_signature_validation: true })
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('ignores skip_signature_validation in production', () => {
+    const result = withNodeEnv('production', () =>
+      checkTwilioSignature(fakeRequest(), { auth_token: AUTH_TOKEN, skip_signature_validation: true })
+    );
+    assert.deepEqual(result, { valid: false, reason: 'Missing X-Twilio-Signature header' });
+  });
+});
@@ -1,8 +1,10 @@
 // src/webhooks/twilio.ts
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { supabase } from '../lib/supabase.js';
+import { supabase, type MediaAttachment, type MediaKind } from '../lib/supabase.js';
 import { inngest } from '../lib/inngest.js';
+import { getTwilioWebhookConfig, checkTwilioSignature } from '../lib/twilio-signature.js';
+import { parseInteractiveReply } from '../services/button-replies.js';
 
 interface TwilioWebhookBody {
   MessageSid: string;
@@ -11,16 +13,71 @@ interface TwilioWebhookBody {
   To: string;
   Body?: string;
   NumMedia?: string;
-  MediaUrl0?: string;
-  MediaContentType0?: string;
   ProfileName?: string;
+  // Resposta a quick reply (ButtonPayload = id do botão) ou lista (ListId = id da linha)
+  ButtonPayload?: string;
+  ButtonText?: string;
+  ListId?: string;
+  ListTitle?: string;
+  OriginalRepliedMessageSid?: string;
+  // MediaUrl0..N / MediaContentType0..N (um par por anexo, conforme NumMedia)
+  [mediaField: `MediaUrl${number}` | `MediaContentType${number}`]: string | undefined;
 }
 
-interface WhatsAppConfig {
-  account_sid: string;
-  auth_token: string;
-  messaging_service_sid?: string;
-  whatsapp_number: string;
+/**
+ * Classifica o content-type do Twilio em um tipo de mídia
+ */
+function getMediaKind(contentType: string): MediaKind {
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType.startsWith('video/')) return 'video';
+  if (contentType.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+/**
+ * Extrai todos os anexos do webhook (MediaUrl0..N-1 conforme NumMedia)
+ */
+function parseMediaAttachments(body: TwilioWebhookBody): MediaAttachment[] {
+  const numMedia = parseInt(body.NumMedia || '0') || 0;
+  const attachments: MediaAttachment[] = [];
+
+  for (let i = 0; i < numMedia; i++) {
+    const url = body[`MediaUrl${i}`];
+    if (!url) continue;
+
+    const contentType = body[`MediaContentType${i}`] || 'application/octet-stream';
+    attachments.push({
+      url,
+      content_type: contentType,
+      media_type: getMediaKind(contentType),
+    });
+  }
+
+  return attachments;
+}
+
+/**
+ * Dispara whatsapp/message.received com id determinístico baseado no MessageSid.
+ * O Inngest descarta eventos com o mesmo id (janela de 24h), então retries
+ * do webhook não geram processamento duplicado.
+ */
+async function sendMessageReceivedEvent(data: {
+  messageSid: string;
+  threadId: string;
+  organizationId: string;
+  messageId: string;
+  contactId: string;
+}) {
+  await inngest.send({
+    id: `whatsapp-inbound-${data.messageSid}`,
+    name: 'whatsapp/message.received',
+    data: {
+      threadId: data.threadId,
+      organizationId: data.organizationId,
+      messageId: data.messageId,
+      contactId: data.contactId,
+    },
+  });
 }
 
 export async function twilioWebhookRoutes(app: FastifyInstance) {
@@ -43,25 +100,52 @@ export async function twilioWebhookRoutes(app: FastifyInstance) {
 
     try {
       // 2. Buscar configuração do WhatsApp desta org
-      const { data: integration, error: integrationError } = await supabase
-        .from('organization_integrations')
-        .select(`
-          id,
-          config_values,
-          organization_id,
-          admin_integrations!inner(slug)
-        `)
-        .eq('organization_id', organizationId)
-        .eq('admin_integrations.slug', 'twilio-whatsapp')
-        .eq('is_enabled', true)
-        .single();
+      const whatsappConfig = await getTwilioWebhookConfig(organizationId);
 
-      if (integrationError || !integration) {
+      if (!whatsappConfig) {
         console.error(`❌ WhatsApp integration not found for org: ${organizationId}`);
         return reply.status(404).send('Integration not found');
       }
 
-      const whatsappConfig = integration.config_values as WhatsAppConfig;
+      // 2.1 Validar assinatura do Twilio
+      const signatureCheck = checkTwilioSignature(request, whatsappConfig);
+      if (!signatureCheck.valid) {
+        console.error(`❌ Rejected webhook for org ${organizationId}: ${signatureCheck.reason}`);
+        return reply.status(403).send('Invalid signature');
+      }
+
+      // 2.2 Idempotência: Twilio reenvia o webhook em timeouts
+      const { data: duplicateMessage } = await supabase
+        .from('messages')
+        .select('id, thread_id')
+        .eq('organization_id', organizationId)
+        .eq('whatsapp_message_sid', body.MessageSid)
+        .maybeSingle();
+
+      if (duplicateMessage) {
+        console.log(`♻️ Duplicate webhook for ${body.MessageSid}, message already saved: ${duplicateMessage.id}`);
+
+        // Reenviar o evento é seguro (mesmo id = deduplicado pelo Inngest) e cobre
+        // o caso de uma falha entre o insert e o inngest.send da tentativa anterior
+        const { data: duplicateThread } = await supabase
+          .from('message_threads')
+          .select('contact_id')
+          .eq('id', duplicateMessage.thread_id)
+          .eq('organization_id', organizationId)
+          .single();
+
+        if (duplicateThread) {
+          await sendMessageReceivedEvent({
+            messageSid: body.MessageSid,
+            threadId: duplicateMessage.thread_id,
+            organizationId,
+            messageId: duplicateMessage.id,
+            contactId: duplicateThread.contact_id,
+          });
+        }
+
+        return reply.status(200).send('');
+      }
 
       // 3. Extrair números
       const customerPhone = body.From.replace('whatsapp:', '');
@@ -144,20 +228,19 @@ export async function twilioWebhookRoutes(app: FastifyInstance) {
       // 6. Processar conteúdo da mensagem
       const messageContent = body.Body || '';
 
-      // 7. Determinar tipo de mídia
-      let mediaType: string | null = null;
-      const mediaUrls: string[] = [];
+      // 7. Extrair anexos de mídia (todos, não apenas o primeiro)
+      const mediaAttachments = parseMediaAttachments(body);
+      const mediaUrls = mediaAttachments.map(a => a.url);
+      const mediaType = mediaAttachments[0]?.media_type || null;
 
-      if (body.NumMedia && parseInt(body.NumMedia) > 0) {
-        if (body.MediaUrl0) {
-          mediaUrls.push(body.MediaUrl0);
-        }
-        if (body.MediaContentType0) {
-          if (body.MediaContentType0.startsWith('image/')) mediaType = 'image';
-          else if (body.MediaContentType0.startsWith('video/')) mediaType = 'video';
-          else if (body.MediaContentType0.startsWith('audio/')) mediaType = 'audio';
-          else mediaType = 'document';
-        }
+      if (mediaAttachments.length > 1) {
+        console.log(`📎 ${mediaAttachments.length} media attachments received`);
+      }
+
+      // 7.1 Seleção de botão/lista (toque real, não texto digitado)
+      const interactiveReply = parseInteractiveReply(body);
+      if (interactiveReply) {
+        console.log(`🔘 ${interactiveReply.kind} selected: ${interactiveReply.option_id}`);
       }
 
       // 8. Salvar mensagem (whatsapp_status não é incluído para inbound - campo é para outbound)
@@ -172,11 +255,20 @@ export async function twilioWebhookRoutes(app: FastifyInstance) {
           whatsapp_message_sid: body.MessageSid,
           media_type: mediaType,
           media_urls: mediaUrls,
+          media_attachments: mediaAttachments,
+          selected_option_id: interactiveReply?.option_id || null,
+          metadata: interactiveReply ? { interactive_reply: interactiveReply } : undefined,
           ai_processed: false,
         })
         .select('id')
         .single();
 
+      // Unique violation: outra entrega do mesmo webhook salvou primeiro (corrida)
+      if (msgError?.code === '23505') {
+        console.log(`♻️ Duplicate webhook for ${body.MessageSid} (concurrent insert), skipping`);
+        return reply.status(200).send('');
+      }
+
       if (msgError || !savedMessage) {
         console.error('❌ Error saving message:', msgError);
         return reply.status(500).send('Error saving message');
@@ -187,20 +279,19 @@ export async function twilioWebhookRoutes(app: FastifyInstance) {
         .from('message_threads')
         .update({
           whatsapp_last_inbound_at: new Date().toISOString(),
+          whatsapp_business_number: businessPhone,
           updated_at: new Date().toISOString(),
         })
         .eq('id', threadId)
         .eq('organization_id', organizationId);
 
       // 10. Disparar evento para Inngest (debounce de 5s)
-      await inngest.send({
-        name: 'whatsapp/message.received',
-        data: {
-          threadId,
-          organizationId,
-          messageId: savedMessage.id,
-          contactId,
-        },
+      await sendMessageReceivedEvent({
+        messageSid: body.MessageSid,
+        threadId,
+        organizationId,
+        messageId: savedMessage.id,
+        contactId,
       });
 
       console.log(`✅ Message queued for processing: ${savedMessage.id}`);
@@ -228,27 +319,58 @@ export async function twilioWebhookRoutes(app: FastifyInstance) {
 
     console.log(`📊 Status update: ${body.MessageSid} → ${body.MessageStatus}`);
 
-    // Atualizar status (com org_id se disponível para segurança)
-    const updateQuery = supabase
-      .from('messages')
-      .update({
-        whatsapp_status: body.MessageStatus,
-        error_code: body.ErrorCode,
-        error_message: body.ErrorMessage,
-      })
-      .eq('whatsapp_message_sid', body.MessageSid);
-
-    if (organizationId) {
-      updateQuery.eq('organization_id', organizationId);
-    }
+    try {
+      // Resolver organização pela mensagem se orgId não veio na URL
+      let statusOrgId = organizationId;
+      if (!statusOrgId) {
+        const { data: existingMessage } = await supabase
+          .from('messages')
+          .select('organization_id')
+          .eq('whatsapp_message_sid', body.MessageSid)
+          .single();
+
+        if (!existingMessage) {
+          console.warn(`⚠️ Message not found for status update: ${body.MessageSid}`);
+          return reply.status(200).send('');
+        }
+
+        statusOrgId = existingMessage.organization_id as string;
+      }
 
-    await updateQuery;
+      // Validar assinatura do Twilio
+      const config = await getTwilioWebhookConfig(statusOrgId);
+      if (!config) {
+        console.error(`❌ WhatsApp integration not found for org: ${statusOrgId}`);
+        return reply.status(404).send('Integration not found');
+      }
+
+      const signatureCheck = checkTwilioSignature(request, config);
+      if (!signatureCheck.valid) {
+        console.error(`❌ Rejected status webhook for org ${statusOrgId}: ${signatureCheck.reason}`);
+        return reply.status(403).send('Invalid signature');
+      }
 
-    return reply.status(200).send('');
+      // Atualizar status (sempre restrito à organização)
+      await supabase
+        .from('messages')
+        .update({
+          whatsapp_status: body.MessageStatus,
+          error_code: body.ErrorCode,
+          error_message: body.ErrorMessage,
+        })
+        .eq('whatsapp_message_sid', body.MessageSid)
+        .eq('organization_id', statusOrgId);
+
+      return reply.status(200).send('');
+
+    } catch (error) {
+      console.error('❌ Status webhook error:', error);
+      return reply.status(500).send('Internal error');
+    }
   });
 
   // Webhook de status de Content Templates (aprovação WhatsApp)
-  // URL: /webhook/twilio/content-status
+  // URL: /webhook/twilio/content-status?orgId=xxx
   // Twilio envia quando o status de aprovação de um template muda
   app.post('/webhook/twilio/content-status', async (request: FastifyRequest, reply: FastifyReply) => {
     const body = request.body as {
@@ -261,24 +383,47 @@ export async function twilioWebhookRoutes(app: FastifyInstance) {
       rejection_reason?: string;
     };
 
+    // orgId na URL: a assinatura é validada antes de qualquer consulta a templates
+    const query = request.query as { orgId?: string };
+    const organizationId = query.orgId;
+
+    if (!organizationId) {
+      console.error('❌ Missing orgId in content status webhook URL');
+      return reply.status(400).send('Missing orgId parameter');
+    }
+
     // Normalizar campos (Twilio pode enviar em diferentes formatos)
     const contentSid = body.ContentSid || body.content_sid;
     const approvalStatus = body.ApprovalStatus || body.approval_status;
     const rejectionReason = body.RejectionReason || body.rejection_reason;
 
-    if (!contentSid) {
-      console.error('❌ Missing ContentSid in content status webhook');
-      return reply.status(400).send('Missing ContentSid');
-    }
+    try {
+      // Validar assinatura do Twilio
+      const config = await getTwilioWebhookConfig(organizationId);
+      if (!config) {
+        console.error(`❌ WhatsApp integration not found for org: ${organizationId}`);
+        return reply.status(404).send('Integration not found');
+      }
 
-    console.log(`📥 Template status update: ${contentSid} -> ${approvalStatus}`);
+      const signatureCheck = checkTwilioSignature(request, config);
+      if (!signatureCheck.valid) {
+        console.error(`❌ Rejected content status webhook for org ${organizationId}: ${signatureCheck.reason}`);
+        return reply.status(403).send('Invalid signature');
+      }
 
-    try {
-      // Buscar template pelo twilio_content_sid
+      if (!contentSid) {
+        console.error('❌ Missing ContentSid in content status webhook');
+        return reply.status(400).send('Missing ContentSid');
+      }
+
+      console.log(`📥 Template status update: ${contentSid} -> ${approvalStatus}`);
+
+      // Buscar template pelo twilio_content_sid (sempre restrito à organização)
       const { data: template, error: findError } = await supabase
         .from('whatsapp_templates')
         .select('id, organization_id, friendly_name')
         .eq('twilio_content_sid', contentSid)
+        .eq('organization_id', organizationId)
         .single();
 
       if (findError || !template) {